@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server"
+import { createRateLimiter, getClientIP } from "@/lib/rate-limit"
+import {
+  checkRegistryAdmin,
+  getCertificateRecord,
+  parseRevocationReason,
+  revokeCertificate,
+} from "@/lib/certificate-registry"
+
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_ATTEMPTS = 100 // Also bounds guesses at the admin key
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
+
+/**
+ * Revoke a certificate issued in error; verification then shows it as revoked.
+ * Needs the registry admin key. Body: { reason }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const rateLimitCheck = checkRateLimit(getClientIP(request))
+    if (!rateLimitCheck.allowed) {
+      return Response.json(
+        { success: false, error: "Too many requests. Please try again later." },
+        { status: 429 }
+      )
+    }
+
+    const adminError = checkRegistryAdmin(request)
+    if (adminError) {
+      return Response.json({ success: false, error: adminError.error }, { status: adminError.status })
+    }
+
+    const { id } = await params
+    const certificate = await getCertificateRecord(id)
+    if (!certificate) {
+      return Response.json({ success: false, error: "Certificate not found" }, { status: 404 })
+    }
+
+    const parsed = parseRevocationReason((await request.json().catch(() => ({})))?.reason)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    if (certificate.status === "revoked" || !(await revokeCertificate(certificate.id, parsed.reason))) {
+      return Response.json({ success: false, error: "Certificate is already revoked" }, { status: 409 })
+    }
+
+    return Response.json({ success: true, certificate: await getCertificateRecord(certificate.id) })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { getCertificateRecord } from "@/lib/certificate-registry"
+
+// Public verification: the holder, course and issue date of a registered certificate,
+// and whether it still stands; a revoked one carries its reason and any replacement
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const certificate = await getCertificateRecord(id)
+
+  if (!certificate) {
+    return Response.json({ success: false, valid: false, error: "Certificate not found" }, { status: 404 })
+  }
+
+  return Response.json(
+    { success: true, valid: certificate.status === "active", certificate },
+    // Verifiers on other sites may call this from the browser
+    { headers: { "Access-Control-Allow-Origin": "*", "Cache-Control": "no-store" } }
+  )
+}
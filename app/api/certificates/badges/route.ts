@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server"
+import { createRateLimiter, getClientIP } from "@/lib/rate-limit"
+import { checkRegistryAdmin } from "@/lib/certificate-registry"
+import { issueOpenBadges, parseBadgesToIssue } from "@/lib/open-badge"
+
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_ATTEMPTS = 100 // Also bounds guesses at the admin key
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
+
+/**
+ * Issue signed Open Badges 3.0 credentials for generated certificates. Needs
+ * the registry admin key, since the badges carry the issuer's signature.
+ * Body: { badges: [{ holderName, email?, achievementName, certificateId?, issuedAt }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitCheck = checkRateLimit(getClientIP(request))
+    if (!rateLimitCheck.allowed) {
+      return Response.json(
+        { success: false, error: "Too many requests. Please try again later." },
+        { status: 429 }
+      )
+    }
+
+    const adminError = checkRegistryAdmin(request)
+    if (adminError) {
+      return Response.json({ success: false, error: adminError.error }, { status: adminError.status })
+    }
+
+    const parsed = parseBadgesToIssue(await request.json().catch(() => null))
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    // Issuer and verification URLs are on the origin the app was opened on
+    const badges = await issueOpenBadges(parsed.badges, request.nextUrl.origin)
+    return Response.json({ success: true, badges })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
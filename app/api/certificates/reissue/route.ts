@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server"
+import { createRateLimiter, getClientIP } from "@/lib/rate-limit"
+import {
+  checkRegistryAdmin,
+  DEFAULT_REISSUE_REASON,
+  getCertificateRecord,
+  parseCertificateRecords,
+  parseRevocationReason,
+  reissueCertificates,
+} from "@/lib/certificate-registry"
+import { isRecord } from "@/lib/utils"
+
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_ATTEMPTS = 100 // Also bounds guesses at the admin key
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
+
+/**
+ * Replace certificates with corrected ones. Each old ID is revoked and points
+ * verifiers to its replacement. Needs the registry admin key.
+ * Body: { reason?, certificates: [{ ...registration, supersedes: "<old ID>" }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitCheck = checkRateLimit(getClientIP(request))
+    if (!rateLimitCheck.allowed) {
+      return Response.json(
+        { success: false, error: "Too many requests. Please try again later." },
+        { status: 429 }
+      )
+    }
+
+    const adminError = checkRegistryAdmin(request)
+    if (adminError) {
+      return Response.json({ success: false, error: adminError.error }, { status: adminError.status })
+    }
+
+    const body: unknown = await request.json().catch(() => null)
+    const parsed = parseCertificateRecords(body, true)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+    const reason = parseRevocationReason(isRecord(body) ? body.reason : undefined, false)
+    if ("error" in reason) {
+      return Response.json({ success: false, error: reason.error }, { status: 400 })
+    }
+
+    // Check every certificate being replaced before changing any of them
+    const superseded = parsed.records.map((record) => record.supersedes)
+    if (new Set(superseded).size !== superseded.length) {
+      return Response.json({ success: false, error: "A certificate can only be replaced once" }, { status: 400 })
+    }
+    for (const id of superseded) {
+      const certificate = await getCertificateRecord(id)
+      if (!certificate) {
+        return Response.json({ success: false, error: `Certificate ${id} not found` }, { status: 404 })
+      }
+      if (certificate.status === "revoked") {
+        return Response.json({ success: false, error: `Certificate ${id} is already revoked` }, { status: 409 })
+      }
+    }
+
+    const conflictId = await reissueCertificates(parsed.records, reason.reason || DEFAULT_REISSUE_REASON)
+    if (conflictId) {
+      return Response.json(
+        { success: false, error: `Certificate ${conflictId} is already revoked or registered` },
+        { status: 409 }
+      )
+    }
+
+    return Response.json({ success: true, reissued: parsed.records.length }, { status: 201 })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server"
+import { createRateLimiter, getClientIP } from "@/lib/rate-limit"
+import { checkRegistryAdmin, parseCertificateRecords, registerCertificates } from "@/lib/certificate-registry"
+
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_ATTEMPTS = 30 // A large run is registered in several batches
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
+
+/**
+ * Record freshly generated certificates in the verification registry. Needs
+ * the registry admin key, or anyone could register made-up certificates
+ * that verification would then show as genuine.
+ * Body: { certificates: [{ id, holderName, course, issueDate, issuedAt, contentHash, format }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitCheck = checkRateLimit(getClientIP(request))
+    if (!rateLimitCheck.allowed) {
+      return Response.json(
+        { success: false, error: "Too many registration requests. Please try again later." },
+        { status: 429 }
+      )
+    }
+
+    const adminError = checkRegistryAdmin(request)
+    if (adminError) {
+      return Response.json({ success: false, error: adminError.error }, { status: adminError.status })
+    }
+
+    const parsed = parseCertificateRecords(await request.json().catch(() => null))
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const existingId = await registerCertificates(parsed.records)
+    if (existingId) {
+      return Response.json(
+        { success: false, error: `Certificate ID ${existingId} is already registered` },
+        { status: 409 }
+      )
+    }
+
+    return Response.json({ success: true, registered: parsed.records.length }, { status: 201 })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server"
+import { createRateLimiter, getClientIP } from "@/lib/rate-limit"
+import { checkRegistryAdmin } from "@/lib/certificate-registry"
+import { parseFilesToSign, signCertificateFiles } from "@/lib/issuer-key"
+
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_ATTEMPTS = 100 // Also bounds guesses at the admin key
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
+
+/**
+ * Sign generated certificate files with the issuer key. Only hashes are sent,
+ * never the files. Needs the registry admin key, or anyone could have
+ * arbitrary files signed.
+ * Body: { certificates: [{ fileName, contentHash, certificateId? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitCheck = checkRateLimit(getClientIP(request))
+    if (!rateLimitCheck.allowed) {
+      return Response.json(
+        { success: false, error: "Too many requests. Please try again later." },
+        { status: 429 }
+      )
+    }
+
+    const adminError = checkRegistryAdmin(request)
+    if (adminError) {
+      return Response.json({ success: false, error: adminError.error }, { status: adminError.status })
+    }
+
+    const parsed = parseFilesToSign(await request.json().catch(() => null))
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const { issuer, signatures } = await signCertificateFiles(parsed.files)
+    return Response.json({ success: true, issuer, signatures })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CERTIFICATE_FONTS, SYSTEM_FONT_SUBSTITUTES } from '@/lib/fonts'
+
+/**
+ * Font file proxy for PDF rendering
+ * Resolves a certificate font to its TrueType file on Google Fonts so the
+ * browser can embed (and subset) it into generated PDFs. System fonts are
+ * served as their open substitute, so PDFs always embed a Unicode font
+ */
+
+// Font files never change for a given family/weight, so keep them in memory
+const fontCache = new Map<string, ArrayBuffer>()
+
+async function fetchGoogleFontFile(family: string, weight: number): Promise<ArrayBuffer> {
+  const cssUrl = `https://fonts.googleapis.com/css2?family=${family.replace(/ /g, '+')}:wght@${weight}`
+
+  // Without a browser User-Agent, Google Fonts serves plain TrueType sources
+  const cssResponse = await fetch(cssUrl)
+  if (!cssResponse.ok) {
+    throw new Error(`Google Fonts returned ${cssResponse.status} for ${family} ${weight}`)
+  }
+
+  const css = await cssResponse.text()
+  const match = css.match(/src:\s*url\(([^)]+)\)/)
+  if (!match) {
+    throw new Error(`No font source found for ${family} ${weight}`)
+  }
+
+  const fontResponse = await fetch(match[1])
+  if (!fontResponse.ok) {
+    throw new Error(`Font download failed with ${fontResponse.status}`)
+  }
+
+  return await fontResponse.arrayBuffer()
+}
+
+export async function GET(request: NextRequest) {
+  const family = request.nextUrl.searchParams.get('family') || ''
+  const weight = Number.parseInt(request.nextUrl.searchParams.get('weight') || '400')
+
+  const font = CERTIFICATE_FONTS.find((f) => f.family === family)
+  if (!font) {
+    return NextResponse.json({ error: 'Unknown font family' }, { status: 404 })
+  }
+
+  // Fall back to the closest weight the family actually ships
+  const resolvedWeight = font.weights.includes(weight)
+    ? weight
+    : font.weights.reduce((closest, w) => (Math.abs(w - weight) < Math.abs(closest - weight) ? w : closest))
+
+  const cacheKey = `${family}:${resolvedWeight}`
+
+  try {
+    let fontData = fontCache.get(cacheKey)
+    if (!fontData) {
+      const sourceFamily = SYSTEM_FONT_SUBSTITUTES[family] || family
+      console.log(`[Fonts API] Fetching ${sourceFamily}:${resolvedWeight} from Google Fonts for ${family}`)
+      fontData = await fetchGoogleFontFile(sourceFamily, resolvedWeight)
+      fontCache.set(cacheKey, fontData)
+    }
+
+    return new NextResponse(fontData, {
+      status: 200,
+      headers: {
+        'Content-Type': 'font/ttf',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    })
+  } catch (error) {
+    console.error('[Fonts API] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    )
+  }
+}
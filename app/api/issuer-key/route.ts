@@ -0,0 +1,18 @@
+import { getIssuerKeyInfo } from "@/lib/issuer-key"
+
+// Public: the key that certificate signatures are checked against
+export async function GET() {
+  try {
+    return Response.json(
+      { success: true, issuer: await getIssuerKeyInfo() },
+      // Verifiers on other sites may call this from the browser
+      { headers: { "Access-Control-Allow-Origin": "*", "Cache-Control": "no-store" } }
+    )
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
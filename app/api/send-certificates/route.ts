@@ -1,62 +1,121 @@
-import { sendBulkCertificates, type EmailProvider } from "@/lib/email-service"
-import type { SendingMode } from "@/types/certificate"
+import { renderDryRun, sendTestEmails } from "@/lib/email-service"
+import { readIdempotencyKey } from "@/lib/idempotency"
+import { createSendJob, getSendJob, isSendJobRunning, parseSendRequest, runSendJob } from "@/lib/send-jobs"
+import { isValidSenderEmail } from "@/lib/smtp"
+import { isRecord } from "@/lib/utils"
 
+// Test sends are for checking the rendering, not a way around the job queue
+const MAX_TEST_EMAILS = 10
+
+/**
+ * Send all certificates and wait for the result. Kept for API clients; it is
+ * backed by a send job like /api/send-jobs, so a request cut off part-way can
+ * still be resumed with the returned jobId.
+ *
+ * With "dryRun": true nothing is sent; every email is rendered and a report
+ * returned. With "testSend": { count, to? } the first `count` emails go to
+ * the sender's own address (or `to`, for Resend which has no login).
+ *
+ * Recipients who already got the same certificate within the idempotency
+ * window are not mailed again; they are reported as skipped ("Already
+ * sent"). A repeated request with the same Idempotency-Key reports on the
+ * job the first one created instead of starting another.
+ */
 export async function POST(request: Request) {
   try {
-    const { recipients, provider = "resend", sendingMode, credentials } = await request.json()
+    const body: unknown = await request.json().catch(() => null)
 
-    console.log("[API] Sending", recipients.length, "certificates via", provider.toUpperCase())
-    console.log("[API] Sending mode:", sendingMode || "auto")
-    console.log("[API] Credentials provided:", !!credentials)
+    if (isRecord(body) && body.dryRun) {
+      const parsed = parseSendRequest(body, { requireCredentials: false })
+      if ("error" in parsed) {
+        return Response.json({ success: false, error: parsed.error }, { status: 400 })
+      }
 
-    if (!recipients || recipients.length === 0) {
-      return Response.json({ success: false, error: "No recipients provided" }, { status: 400 })
+      console.log("[API] Dry run for", parsed.job.recipients.length, "recipients via", parsed.job.provider.toUpperCase())
+      const report = await renderDryRun(parsed.job.recipients, parsed.job.provider, parsed.job.template)
+      return Response.json({ success: true, dryRun: true, report })
     }
 
-    if (provider === "gmail" && !credentials) {
-      return Response.json(
-        { success: false, error: "Gmail credentials required but not provided" },
-        { status: 400 }
+    if (isRecord(body) && body.testSend) {
+      const parsed = parseSendRequest(body)
+      if ("error" in parsed) {
+        return Response.json({ success: false, error: parsed.error }, { status: 400 })
+      }
+
+      const testSend = isRecord(body.testSend) ? body.testSend : {}
+      const testAddress = parsed.credentials?.email || testSend.to
+      if (typeof testAddress !== "string" || !isValidSenderEmail(testAddress)) {
+        return Response.json({ success: false, error: "A valid address to send the test to is required" }, { status: 400 })
+      }
+
+      const count = Math.min(Math.max(Math.floor(Number(testSend.count) || 1), 1), MAX_TEST_EMAILS)
+      const results = await sendTestEmails(
+        parsed.job.recipients,
+        testAddress.trim(),
+        count,
+        parsed.job.provider,
+        parsed.credentials || undefined,
+        parsed.job.template
       )
+
+      return Response.json({
+        success: true,
+        testSend: true,
+        sentCount: results.filter((r) => r.success).length,
+        results,
+      })
     }
 
-    // Convert base64 strings back to Buffers for email attachment
-    const processedRecipients = recipients.map((recipient: any) => ({
-      email: recipient.email,
-      name: recipient.name,
-      certificateBlob: Buffer.from(recipient.certificateBase64, "base64"),
-      fileName: recipient.fileName,
-    }))
+    const parsed = parseSendRequest(body)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const idempotency = readIdempotencyKey(request, body)
+    if ("error" in idempotency) {
+      return Response.json({ success: false, error: idempotency.error }, { status: 400 })
+    }
+    parsed.job.idempotencyKey = idempotency.key
 
-    console.log("[API] Processing", processedRecipients.length, "recipients")
+    const { provider, sendingMode, recipients } = parsed.job
+    console.log("[API] Sending", recipients.length, "certificates via", provider.toUpperCase())
+    console.log("[API] Sending mode:", sendingMode || "auto")
+    console.log("[API] Credentials provided:", !!parsed.credentials)
 
-    const results = await sendBulkCertificates(
-      processedRecipients, 
-      provider as EmailProvider,
-      sendingMode as SendingMode | undefined,
-      credentials
-    ) as Array<{
-      email: string
-      success: boolean
-      messageId?: string
-      error?: string
-      provider: string
-    }>
+    const { job: created, duplicate } = await createSendJob(parsed.job)
+    if (!duplicate) {
+      await runSendJob(created.id, parsed.credentials)
+    } else if (isSendJobRunning(created.id)) {
+      // The first request is still sending; wait for it rather than starting anything
+      await runSendJob(created.id)
+    }
+    const job = (await getSendJob(created.id))!
 
-    const successCount = results.filter((r) => r.success).length
-    const errors = results.filter((r) => !r.success).map((r) => ({ email: r.email, error: r.error }))
+    // Duplicates are not errors: those recipients already have their certificate
+    const errors = job.recipients
+      .filter((r) => r.status !== "sent" && !r.duplicateOf)
+      .map((r) => ({ email: r.email, error: r.error || job.error || "Not sent", attempts: r.attempts || 0 }))
 
-    console.log("[API] Results - Success:", successCount, "Failed:", errors.length)
+    console.log("[API] Results - Success:", job.counts.sent, "Failed:", errors.length)
     if (errors.length > 0) {
       console.error("[API] Errors:", errors)
     }
 
     return Response.json({
       success: true,
-      sentCount: successCount,
+      jobId: job.id,
+      duplicate,
+      sentCount: job.counts.sent,
       errors,
-      provider: provider || "resend",
-      mode: results[0]?.provider?.includes("pooled") ? "pooled" : "sequential",
+      results: job.recipients.map((r) => ({
+        email: r.email,
+        status: r.status,
+        attempts: r.attempts || 0,
+        messageId: r.messageId,
+        error: r.error,
+      })),
+      provider,
+      mode: job.mode || "sequential",
     })
   } catch (error) {
     console.error("[API] Error:", error)
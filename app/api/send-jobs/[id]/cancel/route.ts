@@ -0,0 +1,28 @@
+import { cancelSendJob, getSendJob, isSendJobRunning } from "@/lib/send-jobs"
+
+// Cancel a scheduled job before it starts; it can be rescheduled later
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await getSendJob(id)
+
+    if (!job) {
+      return Response.json({ success: false, error: "Send job not found" }, { status: 404 })
+    }
+
+    if (isSendJobRunning(id)) {
+      return Response.json({ success: false, error: "Send job is already running" }, { status: 409 })
+    }
+
+    const updated = await cancelSendJob(id)
+    console.log("[API] Send job", id, "cancelled")
+
+    return Response.json({ success: true, job: updated })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
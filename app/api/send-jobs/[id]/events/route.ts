@@ -0,0 +1,72 @@
+import { getSendJob, watchSendJob } from "@/lib/send-jobs"
+import type { SendJobEvent } from "@/types/certificate"
+
+// Comment lines keep proxies from closing a quiet stream (e.g. while a large pooled chunk is sending)
+const KEEP_ALIVE_MS = 15000
+
+// The stream stays open while the job is running or waiting for its scheduled time
+const isLive = (event: SendJobEvent) =>
+  event.type !== "snapshot" || event.job.status === "running" || event.job.status === "scheduled"
+
+/**
+ * Server-Sent Events stream of a send job's progress: a snapshot first, then
+ * a "recipient" event as each email is sent or fails. The stream ends with a
+ * final snapshot once the job has finished, stopped or been cancelled.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  if (!(await getSendJob(id))) {
+    return Response.json({ success: false, error: "Send job not found" }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      let unsubscribe = () => {}
+      const keepAlive = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), KEEP_ALIVE_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(keepAlive)
+        unsubscribe()
+      }
+
+      const send = (event: SendJobEvent) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+        if (!isLive(event)) {
+          cleanup()
+          controller.close()
+        }
+      }
+
+      request.signal.addEventListener("abort", () => cleanup())
+
+      try {
+        unsubscribe = await watchSendJob(id, send)
+        // The job may have finished before the subscription was in place
+        if (closed) unsubscribe()
+      } catch (error) {
+        cleanup()
+        controller.error(error)
+      }
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,42 @@
+import { getSendJob, isSendJobRunning, parseProviderCredentials, runSendJob } from "@/lib/send-jobs"
+import { isRecord } from "@/lib/utils"
+
+/**
+ * Continue an interrupted send job. Only recipients still queued are sent;
+ * credentials have to be supplied again since jobs never store them.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await getSendJob(id)
+
+    if (!job) {
+      return Response.json({ success: false, error: "Send job not found" }, { status: 404 })
+    }
+
+    if (isSendJobRunning(id)) {
+      return Response.json({ success: false, error: "Send job is already running" }, { status: 409 })
+    }
+
+    if (job.counts.queued === 0) {
+      return Response.json({ success: false, error: "Send job has no recipients left to send" }, { status: 409 })
+    }
+
+    const body: unknown = await request.json().catch(() => null)
+    const parsed = parseProviderCredentials(job.provider, isRecord(body) ? body.credentials : undefined)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    console.log("[API] Resuming send job", id, "-", job.counts.queued, "recipients queued")
+    runSendJob(id, parsed.credentials).catch((error) => console.error("[API] Send job failed:", error))
+
+    return Response.json({ success: true, jobId: id, queued: job.counts.queued }, { status: 202 })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
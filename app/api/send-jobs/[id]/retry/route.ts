@@ -0,0 +1,56 @@
+import {
+  getSendJob,
+  isSendJobRunning,
+  parseProviderCredentials,
+  requeueFailedRecipients,
+  runSendJob,
+} from "@/lib/send-jobs"
+import { isRecord } from "@/lib/utils"
+
+/**
+ * Send again to the job's failed (and skipped) recipients only.
+ * Body: { credentials, emails?: { [recipientIndex]: "corrected@address" } }
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await getSendJob(id)
+
+    if (!job) {
+      return Response.json({ success: false, error: "Send job not found" }, { status: 404 })
+    }
+
+    if (isSendJobRunning(id)) {
+      return Response.json({ success: false, error: "Send job is already running" }, { status: 409 })
+    }
+
+    const body: unknown = await request.json().catch(() => null)
+    const parsed = parseProviderCredentials(job.provider, isRecord(body) ? body.credentials : undefined)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    // Corrected addresses by recipient index; anything that is not text is ignored
+    const emails: Record<string, string> = {}
+    if (isRecord(body) && isRecord(body.emails)) {
+      for (const [index, email] of Object.entries(body.emails)) {
+        if (typeof email === "string") emails[index] = email
+      }
+    }
+    const requeued = (await requeueFailedRecipients(id, emails))!
+    if (requeued.counts.queued === 0) {
+      return Response.json({ success: false, error: "No failed recipients with a valid email address to retry" }, { status: 409 })
+    }
+
+    console.log("[API] Retrying send job", id, "-", requeued.counts.queued, "recipients queued")
+    runSendJob(id, parsed.credentials).catch((error) => console.error("[API] Send job failed:", error))
+
+    return Response.json({ success: true, jobId: id, queued: requeued.counts.queued }, { status: 202 })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,16 @@
+import { getSendJob } from "@/lib/send-jobs"
+
+// Current status of a send job, with every recipient's delivery state
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = await getSendJob(id)
+
+  if (!job) {
+    return Response.json({ success: false, error: "Send job not found" }, { status: 404 })
+  }
+
+  return Response.json(
+    { success: true, job },
+    { headers: { "Cache-Control": "no-store" } }
+  )
+}
@@ -0,0 +1,47 @@
+import { getSendJob, isSendJobRunning, parseProviderCredentials, parseSchedule, scheduleSendJob } from "@/lib/send-jobs"
+import { isRecord } from "@/lib/utils"
+
+/**
+ * Schedule an existing job, move its start time, or bring back a cancelled one.
+ * Body: { localTime: "YYYY-MM-DDTHH:mm", timeZone, credentials }
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await getSendJob(id)
+
+    if (!job) {
+      return Response.json({ success: false, error: "Send job not found" }, { status: 404 })
+    }
+
+    if (isSendJobRunning(id)) {
+      return Response.json({ success: false, error: "Send job is already running" }, { status: 409 })
+    }
+
+    if (job.counts.queued === 0) {
+      return Response.json({ success: false, error: "Send job has no recipients left to send" }, { status: 409 })
+    }
+
+    const body: unknown = await request.json().catch(() => null)
+    const parsed = parseProviderCredentials(job.provider, isRecord(body) ? body.credentials : undefined)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const scheduled = parseSchedule(body, job.provider)
+    if ("error" in scheduled) {
+      return Response.json({ success: false, error: scheduled.error }, { status: 400 })
+    }
+
+    const updated = await scheduleSendJob(id, scheduled.schedule, parsed.credentials)
+    console.log("[API] Send job", id, "scheduled for", updated?.scheduledAt, `(${updated?.timeZone})`)
+
+    return Response.json({ success: true, job: updated })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { readIdempotencyKey } from "@/lib/idempotency"
+import { createSendJob, hasSendableRecipients, parseSchedule, parseSendRequest, runSendJob } from "@/lib/send-jobs"
+import { isRecord } from "@/lib/utils"
+import type { SendJobSummary } from "@/types/certificate"
+
+// The job the earlier request created, as it stands now; it is not started again
+const duplicateResponse = (job: SendJobSummary) =>
+  Response.json({
+    success: true,
+    duplicate: true,
+    jobId: job.id,
+    total: job.recipients.length,
+    status: job.status,
+    scheduledAt: job.scheduledAt,
+  })
+
+/**
+ * Start an email send job. The job is stored before anything is sent and the
+ * id is returned straight away; sending carries on in the background and is
+ * tracked through GET /api/send-jobs/[id]. With a "schedule"
+ * ({ localTime, timeZone }) the job is only stored, and the scheduler starts it.
+ * Repeating a request with the same Idempotency-Key header returns the job
+ * it created (200, "duplicate": true) without sending anything.
+ */
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json().catch(() => null)
+    const parsed = parseSendRequest(body)
+    if ("error" in parsed) {
+      return Response.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    const idempotency = readIdempotencyKey(request, body)
+    if ("error" in idempotency) {
+      return Response.json({ success: false, error: idempotency.error }, { status: 400 })
+    }
+    parsed.job.idempotencyKey = idempotency.key
+
+    if (isRecord(body) && body.schedule) {
+      if (!hasSendableRecipients(parsed.job)) {
+        return Response.json({ success: false, error: "No recipient has a valid email address" }, { status: 400 })
+      }
+
+      const scheduled = parseSchedule(body.schedule, parsed.job.provider)
+      if ("error" in scheduled) {
+        return Response.json({ success: false, error: scheduled.error }, { status: 400 })
+      }
+
+      const { job, duplicate } = await createSendJob(parsed.job, scheduled.schedule, parsed.credentials)
+      if (duplicate) return duplicateResponse(job)
+
+      console.log("[API] Scheduled send job", job.id, "for", job.scheduledAt, `(${job.timeZone})`)
+      return Response.json(
+        { success: true, jobId: job.id, total: job.recipients.length, scheduledAt: job.scheduledAt },
+        { status: 202 }
+      )
+    }
+
+    const { job, duplicate } = await createSendJob(parsed.job)
+    if (duplicate) return duplicateResponse(job)
+
+    console.log("[API] Starting send job", job.id, "via", parsed.job.provider.toUpperCase())
+
+    // Failures are recorded on the job itself; nothing to do here
+    runSendJob(job.id, parsed.credentials).catch((error) => console.error("[API] Send job failed:", error))
+
+    return Response.json({ success: true, jobId: job.id, total: job.recipients.length }, { status: 202 })
+  } catch (error) {
+    console.error("[API] Error:", error)
+    return Response.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
@@ -52,7 +52,7 @@ export async function POST(request: NextRequest) {
     
   } catch (error) {
     console.error('❌ FAILED:', error)
-    const err = error as any
+    const err = error as { message?: string; code?: string; command?: string; response?: string; responseCode?: number }
     
     return NextResponse.json({
       success: false,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import nodemailer from 'nodemailer'
+import { createRateLimiter, getClientIP } from '@/lib/rate-limit'
+import { createEmailProvider } from '@/lib/email-providers'
 
 /**
  * Secure Gmail credential validation endpoint
@@ -7,47 +8,9 @@ import nodemailer from 'nodemailer'
  * Implements rate limiting and security measures
  */
 
-// Rate limiting store (in production, use Redis or similar)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
 const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
 const RATE_LIMIT_MAX_ATTEMPTS = 5 // Max 5 validation attempts per IP per window
-
-// Get client IP address
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIP = request.headers.get('x-real-ip')
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim()
-  }
-  
-  if (realIP) {
-    return realIP.trim()
-  }
-  
-  return 'unknown'
-}
-
-// Rate limiting check
-function checkRateLimit(ip: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now()
-  const entry = rateLimitStore.get(ip)
-  
-  if (!entry || now > entry.resetTime) {
-    // Reset or first request
-    rateLimitStore.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW })
-    return { allowed: true }
-  }
-  
-  if (entry.count >= RATE_LIMIT_MAX_ATTEMPTS) {
-    return { allowed: false, resetTime: entry.resetTime }
-  }
-  
-  // Increment counter
-  entry.count++
-  rateLimitStore.set(ip, entry)
-  return { allowed: true }
-}
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
 
 // Validate input data
 function validateInput(email: string, appPassword: string): { valid: boolean; error?: string } {
@@ -80,46 +43,17 @@ function validateInput(email: string, appPassword: string): { valid: boolean; er
   return { valid: true }
 }
 
-// Test SMTP connection - Always use Gmail SMTP for both Gmail and .edu.in emails
+// Test the login with the same Gmail adapter that sends (smtp.gmail.com serves both gmail.com and .edu.in)
 async function testEmailConnection(email: string, appPassword: string): Promise<boolean> {
-  let transporter: nodemailer.Transporter | null = null
-  
   try {
-    console.log(`[Credential Validation] Testing connection for: ${email}`)
-    console.log(`[Credential Validation] Password length: ${appPassword.length}`)
-    
-    // Always use Gmail SMTP (works for both gmail.com and .edu.in)
-    transporter = nodemailer.createTransport({
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      auth: {
-        user: email,
-        pass: appPassword,
-      },
-      connectionTimeout: 10000,
-      greetingTimeout: 5000,
-      socketTimeout: 10000,
-      debug: true,
-      logger: true
-    })
-    
-    console.log('[Credential Validation] Attempting connection to smtp.gmail.com:587...')
-    
-    // Verify connection
-    await transporter.verify()
-    
+    console.log('[Credential Validation] Attempting connection to smtp.gmail.com...')
+    await createEmailProvider('gmail', { email, appPassword }).verify()
+
     console.log(`[Credential Validation] ✅ Success for ${email.substring(0, 5)}***`)
     return true
-    
   } catch (error) {
     console.error(`[Credential Validation] ❌ Failed for ${email.substring(0, 5)}***:`, error)
     return false
-  } finally {
-    // Always close the connection
-    if (transporter) {
-      transporter.close()
-    }
   }
 }
 
@@ -162,7 +96,7 @@ export async function POST(request: NextRequest) {
     let body
     try {
       body = await request.json()
-    } catch (error) {
+    } catch {
       return NextResponse.json(
         { success: false, error: 'Invalid JSON in request body' },
         { status: 400, headers }
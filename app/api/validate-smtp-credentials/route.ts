@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRateLimiter, getClientIP } from '@/lib/rate-limit'
+import { isValidSenderEmail, parseSmtpServer } from '@/lib/smtp'
+import { createEmailProvider } from '@/lib/email-providers'
+import { resolveSmtpHost } from '@/lib/email-providers/smtp-host'
+import type { EmailCredentials, SmtpServer } from '@/types/certificate'
+
+/**
+ * SMTP credential validation endpoint for the generic SMTP provider
+ * (Office 365, Zoho, campus relays, ...). Connects to the given server
+ * and verifies the login without storing anything. Hosts on private or
+ * local networks are refused unless listed in SMTP_ALLOWED_HOSTS.
+ */
+
+const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RATE_LIMIT_MAX_ATTEMPTS = 10 // Server settings often take a few tries to get right
+const checkRateLimit = createRateLimiter(RATE_LIMIT_WINDOW, RATE_LIMIT_MAX_ATTEMPTS)
+
+const headers = {
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block',
+  'Cache-Control': 'no-store, no-cache, must-revalidate',
+  'Pragma': 'no-cache'
+}
+
+// Validate input data
+function validateInput(email: unknown, password: unknown): { valid: boolean; error?: string } {
+  if (!email || typeof email !== 'string' || !isValidSenderEmail(email)) {
+    return { valid: false, error: 'Please enter a valid sender email address' }
+  }
+
+  if (typeof password !== 'string') {
+    return { valid: false, error: 'Password must be a string' }
+  }
+
+  return { valid: true }
+}
+
+// Turn nodemailer's error codes into something the user can act on
+function describeSmtpError(error: unknown, server: SmtpServer): string {
+  const err = error as { code?: string; responseCode?: number; message?: string }
+  const address = `${server.host}:${server.port}`
+
+  switch (err.code) {
+    case 'EAUTH':
+      return 'The server rejected the username or password. Some providers (e.g. Office 365) require an app password or SMTP AUTH to be enabled for the mailbox.'
+    case 'EDNS':
+      return `Could not find the SMTP host ${server.host}. Please check the host name.`
+    case 'ETIMEDOUT':
+    case 'ECONNECTION':
+    case 'ECONNREFUSED':
+      return `Could not connect to ${address}. Check the host, port and that your network allows outgoing SMTP.`
+    case 'ETLS':
+    case 'ESOCKET':
+      return `Secure connection to ${address} failed. Try another security mode (SSL/TLS usually uses port 465, STARTTLS port 587).`
+    default:
+      return err.message || 'Unable to connect to the SMTP server.'
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check if HTTPS (in production)
+    if (process.env.NODE_ENV === 'production' && !request.url.startsWith('https://')) {
+      return NextResponse.json(
+        { success: false, error: 'HTTPS required for credential validation' },
+        { status: 400, headers }
+      )
+    }
+
+    // Rate limiting
+    const rateLimitCheck = checkRateLimit(getClientIP(request))
+
+    if (!rateLimitCheck.allowed) {
+      const resetTime = rateLimitCheck.resetTime ? new Date(rateLimitCheck.resetTime) : new Date()
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many validation attempts. Please try again later.',
+          resetTime: resetTime.toISOString()
+        },
+        { status: 429, headers }
+      )
+    }
+
+    // Parse request body
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400, headers }
+      )
+    }
+
+    const { email, appPassword, smtp } = body
+
+    const validation = validateInput(email, appPassword)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400, headers }
+      )
+    }
+
+    const parsed = parseSmtpServer(smtp)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400, headers }
+      )
+    }
+
+    const { server } = parsed
+    const credentials: EmailCredentials = { email: email.trim().toLowerCase(), appPassword, smtp: server }
+
+    // Checked here too so a refused host is a bad request, not a failed login
+    const resolved = await resolveSmtpHost(server.host)
+    if ('error' in resolved) {
+      console.warn(`[SMTP Validation] Refused host ${server.host}`)
+      return NextResponse.json(
+        { success: false, error: resolved.error },
+        { status: 400, headers }
+      )
+    }
+
+    console.log(`[SMTP Validation] Testing ${server.host}:${server.port} (${server.security}) for ${credentials.email.substring(0, 5)}***`)
+
+    try {
+      await createEmailProvider('smtp', credentials).verify()
+      console.log('[SMTP Validation] ✅ Connection verified')
+      return NextResponse.json(
+        { success: true, message: 'SMTP server validated successfully' },
+        { status: 200, headers }
+      )
+    } catch (error) {
+      console.error('[SMTP Validation] ❌ Failed:', error)
+      return NextResponse.json(
+        { success: false, error: describeSmtpError(error, server) },
+        { status: 401, headers }
+      )
+    }
+  } catch (error) {
+    console.error('[SMTP Validation API] Unexpected error:', error)
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500, headers }
+    )
+  }
+}
+
+// Handle unsupported methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -7,15 +7,20 @@ import { CheckCircle, Trash2 } from "lucide-react"
 import TemplateUpload from "@/components/steps/template-upload"
 import FieldConfiguration from "@/components/steps/field-configuration"
 import CertificateGeneration from "@/components/steps/certificate-generation"
-import type { CertificateField } from "@/types/certificate"
-import { saveSession, loadSession, clearSession, hasValidSession } from "@/utils/storage"
+import EmailSending from "@/components/steps/email-sending"
+import type { CertificateField, EmailTemplate } from "@/types/certificate"
+import { DEFAULT_EMAIL_TEMPLATE } from "@/lib/email-template"
+import { saveSession, loadSession, clearSession, hasValidSession, type StoredCertificate } from "@/utils/storage"
 
-type Step = "upload" | "configure" | "generate"
+type Step = "upload" | "configure" | "generate" | "email"
+
+const STEPS: Step[] = ["upload", "configure", "generate", "email"]
 
 interface AppState {
   templateImage: string | null
   fields: CertificateField[]
   csvData: Array<Record<string, string>>
+  emailTemplate: EmailTemplate
 }
 
 export default function Home() {
@@ -24,53 +29,76 @@ export default function Home() {
     templateImage: null,
     fields: [],
     csvData: [],
+    emailTemplate: DEFAULT_EMAIL_TEMPLATE,
   })
+  // Kept out of appState so field edits do not re-save every certificate Blob
+  const [certificates, setCertificates] = useState<StoredCertificate[]>([])
+  // Reissued certificates being emailed on their own; null sends them all
+  const [emailSelection, setEmailSelection] = useState<StoredCertificate[] | null>(null)
   const [sessionRestored, setSessionRestored] = useState(false)
-
-  // Restore session on mount
-  useEffect(() => {
-    if (hasValidSession()) {
-      const session = loadSession()
-      console.log("[Session] Restoring session from localStorage:", session)
+  // Saving waits until the stored session has been read, so it is not overwritten by the empty initial state
+  const [sessionLoaded, setSessionLoaded] = useState(false)
+
+  const restoreSession = async () => {
+    if (await hasValidSession()) {
+      const session = await loadSession([
+        "templateImage",
+        "fields",
+        "csvData",
+        "emailTemplate",
+        "generatedCertificates",
+        "currentStep",
+      ])
+      console.log("[Session] Restoring session from IndexedDB:", session)
 
       const restoredState: AppState = {
         templateImage: session.templateImage || null,
         fields: session.fields || [],
         csvData: session.csvData || [],
+        emailTemplate: session.emailTemplate || DEFAULT_EMAIL_TEMPLATE,
       }
 
       setAppState(restoredState)
+      setCertificates(session.generatedCertificates || [])
 
       // Restore current step
-      if (session.currentStep === 1) setCurrentStep("upload")
-      else if (session.currentStep === 2) setCurrentStep("configure")
-      else if (session.currentStep === 3) setCurrentStep("generate")
+      if (session.currentStep && STEPS[session.currentStep - 1]) {
+        setCurrentStep(STEPS[session.currentStep - 1])
+      }
 
       setSessionRestored(true)
 
       // Auto-clear the session restored message after 5 seconds
       setTimeout(() => setSessionRestored(false), 5000)
     }
+  }
+
+  // Restore session on mount
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- the session is restored only after it is read from IndexedDB
+    restoreSession().finally(() => setSessionLoaded(true))
   }, [])
 
   // Save session whenever important data changes
   useEffect(() => {
-    const stepNumber =
-      currentStep === "upload" ? 1 : currentStep === "configure" ? 2 : 3
+    if (!sessionLoaded) return
+
+    const stepNumber = STEPS.indexOf(currentStep) + 1
 
     const sessionData = {
       currentStep: stepNumber,
       templateImage: appState.templateImage || "",
       fields: appState.fields,
       csvData: appState.csvData,
+      emailTemplate: appState.emailTemplate,
     }
 
     saveSession(sessionData)
-  }, [currentStep, appState])
+  }, [currentStep, appState, sessionLoaded])
 
-  const handleClearSession = () => {
+  const handleClearSession = async () => {
     if (confirm("Are you sure you want to clear all progress and start fresh?")) {
-      clearSession()
+      await clearSession()
       window.location.reload()
     }
   }
@@ -88,9 +116,22 @@ export default function Home() {
     setAppState((prev) => ({ ...prev, csvData: data }))
   }
 
+  const handleEmailTemplateChange = (emailTemplate: EmailTemplate) => {
+    setAppState((prev) => ({ ...prev, emailTemplate }))
+  }
+
+  const handleEmailCertificates = (selection: StoredCertificate[]) => {
+    setEmailSelection(selection)
+    setCurrentStep("email")
+  }
+
   const handleBack = () => {
     if (currentStep === "configure") setCurrentStep("upload")
     if (currentStep === "generate") setCurrentStep("configure")
+    if (currentStep === "email") {
+      setEmailSelection(null)
+      setCurrentStep("generate")
+    }
   }
 
   return (
@@ -125,13 +166,13 @@ export default function Home() {
 
         {/* Progress Indicator */}
         <div className="flex gap-4 mb-8">
-          {(["upload", "configure", "generate"] as const).map((step, index) => (
+          {STEPS.map((step, index) => (
             <div key={step} className="flex items-center gap-4">
               <div
                 className={`w-10 h-10 rounded-full flex items-center justify-center font-semibold transition-all ${
                   currentStep === step
                     ? "bg-[#21808D] text-white"
-                    : currentStep > step
+                    : STEPS.indexOf(currentStep) > index
                       ? "bg-[#21808D] text-white"
                       : "bg-gray-200 text-gray-600"
                 }`}
@@ -142,8 +183,9 @@ export default function Home() {
                 {step === "upload" && "Upload Template"}
                 {step === "configure" && "Configure Fields"}
                 {step === "generate" && "Generate"}
+                {step === "email" && "Email"}
               </span>
-              {index < 2 && <div className="w-8 h-0.5 bg-gray-300 hidden sm:block" />}
+              {index < STEPS.length - 1 && <div className="w-8 h-0.5 bg-gray-300 hidden sm:block" />}
             </div>
           ))}
         </div>
@@ -164,7 +206,28 @@ export default function Home() {
             <CertificateGeneration
               templateImage={appState.templateImage!}
               fields={appState.fields}
+              generatedCertificates={certificates}
               onCsvUpload={handleCsvUpload}
+              onCertificatesGenerated={setCertificates}
+              onEmailCertificates={handleEmailCertificates}
+              onNext={() => {
+                setEmailSelection(null)
+                setCurrentStep("email")
+              }}
+              onBack={handleBack}
+            />
+          )}
+          {currentStep === "email" && emailSelection && (
+            <div className="mx-8 mt-8 -mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-4 py-3">
+              Emailing only the {emailSelection.length} reissued certificate{emailSelection.length === 1 ? "" : "s"}.
+            </div>
+          )}
+          {currentStep === "email" && (
+            <EmailSending
+              certificates={emailSelection ?? certificates}
+              csvData={appState.csvData}
+              emailTemplate={appState.emailTemplate}
+              onTemplateChange={handleEmailTemplateChange}
               onBack={handleBack}
             />
           )}
@@ -0,0 +1,162 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Ban, Loader2 } from "lucide-react"
+import { getVerificationPath, normalizeCertificateId } from "@/lib/certificate-id"
+import type { CertificateRecord } from "@/types/certificate"
+
+// For issuers: withdraw a certificate issued in error, such as one later failing an audit
+export default function RevokePage() {
+  const [input, setInput] = useState("")
+  const [certificate, setCertificate] = useState<CertificateRecord | null>(null)
+  const [reason, setReason] = useState("")
+  // Kept in memory only; it is asked for again after a reload
+  const [adminKey, setAdminKey] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const lookUp = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCertificate(null)
+    setError(null)
+
+    const id = normalizeCertificateId(input)
+    if (!id) {
+      setError("Certificate IDs have 12 letters and digits, like 7K3M-9QXP-2B4D")
+      return
+    }
+
+    setIsBusy(true)
+    try {
+      const result = await (await fetch(`/api/certificates/${id}`)).json()
+      if (result.certificate) setCertificate(result.certificate)
+      else setError(`No certificate with the ID ${id} has been issued`)
+    } catch {
+      setError("Could not look up the certificate. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const revoke = async () => {
+    if (!certificate) return
+    setIsBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/certificates/${certificate.id}/revoke`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminKey.trim()}` },
+        body: JSON.stringify({ reason: reason.trim() }),
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || "Could not revoke the certificate")
+      setCertificate(result.certificate)
+      setReason("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not revoke the certificate")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-[#FCFCF9] to-[#F5F5F2] p-6">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-3xl font-bold text-[#1a1a1a] mb-6">Revoke a Certificate</h1>
+
+        <Card className="p-6 bg-white shadow-lg">
+          <p className="text-sm text-gray-600 mb-4">
+            A revoked certificate fails verification and shows the reason. To replace it with a corrected one instead,
+            reissue it from the Generate step.
+          </p>
+
+          <form onSubmit={lookUp} className="flex gap-2">
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX"
+              autoFocus
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono uppercase"
+            />
+            <Button type="submit" variant="outline" disabled={isBusy}>
+              Look Up
+            </Button>
+          </form>
+
+          {certificate && (
+            <div className="border-t border-gray-200 pt-4 mt-4 space-y-3">
+              <dl className="text-sm space-y-1">
+                <div className="flex justify-between gap-4">
+                  <dt className="text-gray-600">Awarded to</dt>
+                  <dd className="font-medium text-[#1a1a1a]">{certificate.holderName}</dd>
+                </div>
+                {certificate.course && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-600">Course</dt>
+                    <dd className="font-medium text-[#1a1a1a]">{certificate.course}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between gap-4">
+                  <dt className="text-gray-600">Status</dt>
+                  <dd className={certificate.status === "revoked" ? "font-medium text-red-700" : "font-medium text-green-700"}>
+                    {certificate.status === "revoked" ? "Revoked" : "Valid"}
+                  </dd>
+                </div>
+                {certificate.revocationReason && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-gray-600">Reason</dt>
+                    <dd className="text-[#1a1a1a] text-right">{certificate.revocationReason}</dd>
+                  </div>
+                )}
+              </dl>
+              <Link href={getVerificationPath(certificate.id)} className="inline-block text-sm text-[#21808D] hover:underline">
+                Open the verification page
+              </Link>
+
+              {certificate.status !== "revoked" && (
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Reason</label>
+                    <input
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="e.g. Failed the course audit"
+                      maxLength={300}
+                      className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Shown publicly on the verification page</p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Admin Key</label>
+                    <input
+                      type="password"
+                      value={adminKey}
+                      onChange={(e) => setAdminKey(e.target.value)}
+                      placeholder="REGISTRY_ADMIN_KEY"
+                      autoComplete="off"
+                      className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                  <Button
+                    onClick={revoke}
+                    disabled={isBusy || !reason.trim() || !adminKey.trim()}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Ban className="w-4 h-4 mr-2" />}
+                    Revoke Certificate
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        </Card>
+      </div>
+    </main>
+  )
+}
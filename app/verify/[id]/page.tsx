@@ -0,0 +1,122 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { Card } from "@/components/ui/card"
+import { CheckCircle, XCircle } from "lucide-react"
+import CertificateFileCheck from "@/components/certificate-file-check"
+import { getCertificateRecord } from "@/lib/certificate-registry"
+import { getVerificationPath } from "@/lib/certificate-id"
+
+export const metadata: Metadata = {
+  title: "Verify Certificate - CertificateHash",
+}
+
+interface VerifyCertificatePageProps {
+  params: Promise<{ id: string }>
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" })
+
+// Public page an employer opens (or is linked to) to confirm a certificate is genuine
+export default async function VerifyCertificatePage({ params }: VerifyCertificatePageProps) {
+  const { id } = await params
+  const certificate = await getCertificateRecord(id)
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-[#FCFCF9] to-[#F5F5F2] p-6">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-3xl font-bold text-[#1a1a1a] mb-6">Certificate Verification</h1>
+
+        {certificate ? (
+          <Card className="p-6 bg-white shadow-lg">
+            {certificate.status === "revoked" ? (
+              <div className="flex items-start gap-3 mb-6 rounded-md bg-red-50 border border-red-200 p-4">
+                <XCircle className="w-8 h-8 text-red-600 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-red-900 text-lg">Revoked certificate</p>
+                  <p className="text-sm text-red-700">
+                    This certificate was withdrawn
+                    {certificate.revokedAt && ` on ${formatDate(certificate.revokedAt)}`} and is no longer valid.
+                  </p>
+                  {certificate.revocationReason && (
+                    <p className="text-sm text-red-700 mt-1">Reason: {certificate.revocationReason}</p>
+                  )}
+                  {certificate.replacedBy && (
+                    <Link
+                      href={getVerificationPath(certificate.replacedBy)}
+                      className="inline-block mt-2 text-sm font-medium text-[#21808D] hover:underline"
+                    >
+                      View the corrected certificate ({certificate.replacedBy})
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3 mb-6">
+                <CheckCircle className="w-8 h-8 text-green-600" />
+                <div>
+                  <p className="font-semibold text-green-900 text-lg">Genuine certificate</p>
+                  <p className="text-sm text-gray-600">This certificate was issued and is on record.</p>
+                </div>
+              </div>
+            )}
+
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-gray-600">Awarded to</dt>
+                <dd className="text-lg font-semibold text-[#1a1a1a]">{certificate.holderName}</dd>
+              </div>
+              {certificate.course && (
+                <div>
+                  <dt className="text-gray-600">Course</dt>
+                  <dd className="font-medium text-[#1a1a1a]">{certificate.course}</dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-gray-600">Issue date</dt>
+                <dd className="font-medium text-[#1a1a1a]">{certificate.issueDate || formatDate(certificate.issuedAt)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-600">Certificate ID</dt>
+                <dd className="font-mono text-[#1a1a1a]">{certificate.id}</dd>
+              </div>
+              {certificate.supersedes && (
+                <div>
+                  <dt className="text-gray-600">Replaces</dt>
+                  <dd>
+                    <Link href={getVerificationPath(certificate.supersedes)} className="font-mono text-[#21808D] hover:underline">
+                      {certificate.supersedes}
+                    </Link>
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-gray-600">Content hash (SHA-256)</dt>
+                <dd className="font-mono text-xs text-gray-500 break-all">{certificate.contentHash}</dd>
+              </div>
+            </dl>
+
+            <CertificateFileCheck contentHash={certificate.contentHash} />
+          </Card>
+        ) : (
+          <Card className="p-6 bg-red-50 border-red-200">
+            <div className="flex items-start gap-3">
+              <XCircle className="w-6 h-6 text-red-600 mt-0.5" />
+              <div>
+                <p className="font-semibold text-red-900">No certificate found</p>
+                <p className="text-sm text-red-700 mt-1">
+                  No certificate with the ID <span className="font-mono">{id}</span> has been issued. Check the ID
+                  printed on the certificate and try again.
+                </p>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        <Link href="/verify" className="inline-block mt-6 text-sm text-[#21808D] hover:underline">
+          Verify another certificate
+        </Link>
+      </div>
+    </main>
+  )
+}
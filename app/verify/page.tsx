@@ -0,0 +1,65 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { ShieldCheck } from "lucide-react"
+import { getVerificationPath, normalizeCertificateId } from "@/lib/certificate-id"
+
+// Entry point for verifiers who have a printed certificate rather than a link
+export default function VerifyPage() {
+  const router = useRouter()
+  const [input, setInput] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const verify = (e: React.FormEvent) => {
+    e.preventDefault()
+    const id = normalizeCertificateId(input)
+    if (!id) {
+      setError("Certificate IDs have 12 letters and digits, like 7K3M-9QXP-2B4D")
+      return
+    }
+    router.push(getVerificationPath(id))
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-[#FCFCF9] to-[#F5F5F2] p-6">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-3xl font-bold text-[#1a1a1a] mb-6">Certificate Verification</h1>
+
+        <Card className="p-6 bg-white shadow-lg">
+          <div className="flex items-center gap-3 mb-4">
+            <ShieldCheck className="w-8 h-8 text-[#21808D]" />
+            <p className="text-sm text-gray-600">
+              Enter the certificate ID printed on the certificate to check that it is genuine.
+            </p>
+          </div>
+
+          <form onSubmit={verify} className="flex gap-2">
+            <input
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value)
+                setError(null)
+              }}
+              placeholder="XXXX-XXXX-XXXX"
+              autoFocus
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono uppercase"
+            />
+            <Button type="submit" className="bg-[#21808D] hover:bg-[#1a6570] text-white">
+              Verify
+            </Button>
+          </form>
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        </Card>
+
+        <Link href="/verify/signature" className="inline-block mt-6 text-sm text-[#21808D] hover:underline">
+          Have the certificate file and its signatures.json? Check its digital signature
+        </Link>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { CheckCircle, FileSignature, Loader2, XCircle } from "lucide-react"
+import { getVerificationPath } from "@/lib/certificate-id"
+import {
+  checkFileSignature,
+  parseSignatureManifest,
+  SIGNATURE_MANIFEST_FILE,
+  type SignatureCheck,
+} from "@/lib/certificate-signature"
+import type { IssuerKeyInfo } from "@/types/certificate"
+
+const CHECK_MESSAGES: Record<Exclude<SignatureCheck["status"], "valid">, string> = {
+  "not-listed":
+    "This file is not in the signature manifest. It may have been edited, converted or re-saved, or it came with a different manifest.",
+  "other-key": "This file was signed, but not with the issuer's key. It did not come from the issuer.",
+  invalid: "The signature does not match. The manifest entry for this file has been tampered with.",
+}
+
+// Check a certificate file's detached signature; both files are read in the browser and never uploaded
+export default function VerifySignaturePage() {
+  const [issuer, setIssuer] = useState<IssuerKeyInfo | null>(null)
+  const [certificateFile, setCertificateFile] = useState<File | null>(null)
+  const [manifestFile, setManifestFile] = useState<File | null>(null)
+  const [result, setResult] = useState<SignatureCheck | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The issuer's published key is what signatures are checked against
+  useEffect(() => {
+    fetch("/api/issuer-key")
+      .then((response) => response.json())
+      .then((data) => (data.success ? setIssuer(data.issuer) : setError("Could not load the issuer's key")))
+      .catch(() => setError("Could not load the issuer's key"))
+  }, [])
+
+  const check = async () => {
+    if (!certificateFile || !manifestFile || !issuer) return
+    setIsChecking(true)
+    setResult(null)
+    setError(null)
+    try {
+      const manifest = parseSignatureManifest(await manifestFile.text())
+      if (!manifest) {
+        setError(`${manifestFile.name} is not a signature manifest. Pick the ${SIGNATURE_MANIFEST_FILE} from the certificate ZIP.`)
+        return
+      }
+      setResult(await checkFileSignature(certificateFile, manifest, issuer))
+    } catch (err) {
+      console.error("[Verify] Could not check signature:", err)
+      setError("This browser cannot check signatures here. Open the page over HTTPS and try again.")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-[#FCFCF9] to-[#F5F5F2] p-6">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-3xl font-bold text-[#1a1a1a] mb-6">Check a Certificate Signature</h1>
+
+        <Card className="p-6 bg-white shadow-lg">
+          <div className="flex items-center gap-3 mb-4">
+            <FileSignature className="w-8 h-8 text-[#21808D]" />
+            <p className="text-sm text-gray-600">
+              Certificates come with a {SIGNATURE_MANIFEST_FILE} that holds the issuer&apos;s digital signature for each file.
+              Pick a certificate and that manifest to check the certificate is unaltered and was signed by the issuer.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Certificate (PNG or PDF)</label>
+              <input
+                type="file"
+                accept=".png,.pdf"
+                onChange={(e) => {
+                  setCertificateFile(e.target.files?.[0] || null)
+                  setResult(null)
+                }}
+                className="block w-full mt-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Signature manifest ({SIGNATURE_MANIFEST_FILE})</label>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  setManifestFile(e.target.files?.[0] || null)
+                  setResult(null)
+                }}
+                className="block w-full mt-1 text-sm"
+              />
+            </div>
+            <Button
+              onClick={check}
+              disabled={!certificateFile || !manifestFile || !issuer || isChecking}
+              className="bg-[#21808D] hover:bg-[#1a6570] text-white"
+            >
+              {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Check Signature
+            </Button>
+          </div>
+
+          {result?.status === "valid" && (
+            <div className="flex items-start gap-2 mt-4 text-sm rounded-md p-3 border bg-green-50 border-green-200 text-green-800">
+              <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-medium">Signed by {result.payload.issuer} and unaltered.</p>
+                <p className="text-xs mt-1">
+                  Issued as {result.payload.fileName} on {new Date(result.payload.signedAt).toLocaleString()}.
+                </p>
+                {result.payload.certificateId && (
+                  <Link
+                    href={getVerificationPath(result.payload.certificateId)}
+                    className="inline-block text-xs mt-1 text-[#21808D] hover:underline"
+                  >
+                    Check certificate {result.payload.certificateId} has not been revoked
+                  </Link>
+                )}
+              </div>
+            </div>
+          )}
+          {result && result.status !== "valid" && (
+            <div className="flex items-start gap-2 mt-4 text-sm rounded-md p-3 border bg-red-50 border-red-200 text-red-800">
+              <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{CHECK_MESSAGES[result.status]}</span>
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+          {issuer && (
+            <p className="text-xs text-gray-500 mt-4 break-all">
+              Issuer key fingerprint: <span className="font-mono">{issuer.keyId}</span>
+            </p>
+          )}
+        </Card>
+      </div>
+    </main>
+  )
+}
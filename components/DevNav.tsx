@@ -16,21 +16,31 @@ import {
   Lock,
   Mail,
   Key,
-  Info
+  Info,
+  Server
 } from 'lucide-react'
 import { useCredentials } from '@/hooks/useCredentials'
+import { SMTP_SECURITY_MODES, isValidSenderEmail } from '@/lib/smtp'
+import type { SmtpSecurity } from '@/types/certificate'
 
 interface DevNavProps {
   isOpen: boolean
   onClose: () => void
   onSuccess: () => void
+  // "smtp" asks for server settings and accepts any sender address
+  provider?: 'gmail' | 'smtp'
 }
 
-export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
+export default function DevNav({ isOpen, onClose, onSuccess, provider = 'gmail' }: DevNavProps) {
   const [email, setEmail] = useState('')
   const [appPassword, setAppPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [smtpHost, setSmtpHost] = useState('')
+  const [smtpPort, setSmtpPort] = useState('587')
+  const [smtpSecurity, setSmtpSecurity] = useState<SmtpSecurity>('starttls')
+  const [smtpUsername, setSmtpUsername] = useState('')
+  const isSmtp = provider === 'smtp'
   
   const { login, isValidating, error, clearError } = useCredentials()
 
@@ -44,6 +54,7 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
   // Check security environment on mount
   useEffect(() => {
     if (typeof window !== 'undefined') {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- the browser is only known after mount, and the server render must match the first client render
       setSecurityChecks({
         https: window.location.protocol === 'https:' || window.location.hostname === 'localhost',
         webCrypto: !!(window.crypto && window.crypto.subtle),
@@ -53,14 +64,19 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
   }, [])
 
   // Validate email format in real-time
-  const isEmailValid = email.trim() === '' || /^[a-zA-Z0-9._%+-]+@(gmail\.com|[a-zA-Z0-9.-]+\.edu\.in)$/.test(email.trim())
+  const isEmailValid = email.trim() === '' || (isSmtp
+    ? isValidSenderEmail(email)
+    : /^[a-zA-Z0-9._%+-]+@(gmail\.com|[a-zA-Z0-9.-]+\.edu\.in)$/.test(email.trim()))
   
-  // Validate app password format in real-time
+  // Validate app password format in real-time (SMTP passwords are free-form and may be blank)
   const cleanPassword = appPassword.replace(/\s/g, '')
-  const isPasswordValid = appPassword === '' || (cleanPassword.length === 16 && /^[a-zA-Z0-9]+$/.test(cleanPassword))
+  const isPasswordValid = isSmtp || appPassword === '' || (cleanPassword.length === 16 && /^[a-zA-Z0-9]+$/.test(cleanPassword))
+
+  const port = Number(smtpPort)
+  const isServerValid = !isSmtp || (/^[a-zA-Z0-9.-]+$/.test(smtpHost.trim()) && Number.isInteger(port) && port >= 1 && port <= 65535)
   
   // Check if form is ready to submit
-  const canSubmit = email.trim() !== '' && appPassword !== '' && isEmailValid && isPasswordValid && !isSubmitting && !isValidating
+  const canSubmit = email.trim() !== '' && (appPassword !== '' || isSmtp) && isEmailValid && isPasswordValid && isServerValid && !isSubmitting && !isValidating
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -75,7 +91,14 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
       console.log(`[DevNav] Password length: ${appPassword.length}`)
       console.log(`[DevNav] Password (first 4 chars): ${appPassword.substring(0, 4)}`)
       
-      const success = await login(email.trim().toLowerCase(), appPassword)
+      const success = isSmtp
+        ? await login(email.trim().toLowerCase(), appPassword, {
+            host: smtpHost.trim(),
+            port,
+            security: smtpSecurity,
+            username: smtpUsername.trim() || undefined
+          })
+        : await login(email.trim().toLowerCase(), appPassword)
       
       if (success) {
         // Clear form
@@ -104,6 +127,13 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
     }
   }
 
+  // Picking a security mode suggests its usual port
+  const handleSecurityChange = (security: SmtpSecurity) => {
+    setSmtpSecurity(security)
+    const mode = SMTP_SECURITY_MODES.find((m) => m.value === security)
+    if (mode) setSmtpPort(String(mode.defaultPort))
+  }
+
   // Format app password with spaces for better readability
   const formatAppPassword = (value: string) => {
     const clean = value.replace(/\s/g, '')
@@ -183,16 +213,77 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
+            {/* SMTP Server Settings */}
+            {isSmtp && (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="smtpHost" className="flex items-center space-x-2">
+                    <Server className="w-4 h-4" />
+                    <span>SMTP Server</span>
+                  </Label>
+                  <Input
+                    id="smtpHost"
+                    placeholder="smtp.office365.com"
+                    value={smtpHost}
+                    onChange={(e) => setSmtpHost(e.target.value)}
+                    disabled={isSubmitting || isValidating}
+                    autoComplete="off"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="smtpSecurity">Security</Label>
+                    <select
+                      id="smtpSecurity"
+                      value={smtpSecurity}
+                      onChange={(e) => handleSecurityChange(e.target.value as SmtpSecurity)}
+                      disabled={isSubmitting || isValidating}
+                      className="w-full h-9 px-3 border border-gray-300 rounded-md text-sm"
+                    >
+                      {SMTP_SECURITY_MODES.map((mode) => (
+                        <option key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="smtpPort">Port</Label>
+                    <Input
+                      id="smtpPort"
+                      type="number"
+                      min={1}
+                      max={65535}
+                      value={smtpPort}
+                      onChange={(e) => setSmtpPort(e.target.value)}
+                      disabled={isSubmitting || isValidating}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="smtpUsername">Username (optional)</Label>
+                  <Input
+                    id="smtpUsername"
+                    placeholder="Defaults to the sender email"
+                    value={smtpUsername}
+                    onChange={(e) => setSmtpUsername(e.target.value)}
+                    disabled={isSubmitting || isValidating}
+                    autoComplete="off"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Email Input */}
             <div className="space-y-2">
               <Label htmlFor="email" className="flex items-center space-x-2">
                 <Mail className="w-4 h-4" />
-                <span>Email Address</span>
+                <span>{isSmtp ? 'Sender Email' : 'Email Address'}</span>
               </Label>
               <Input
                 id="email"
                 type="email"
-                placeholder="your-email@gmail.com or email@university.edu.in"
+                placeholder={isSmtp ? 'certificates@your-domain.org' : 'your-email@gmail.com or email@university.edu.in'}
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 disabled={isSubmitting || isValidating}
@@ -200,7 +291,9 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
                 autoComplete="username"
               />
               {email && !isEmailValid && (
-                <p className="text-xs text-red-600">Please enter a valid Gmail address or educational email (.edu.in)</p>
+                <p className="text-xs text-red-600">
+                  {isSmtp ? 'Please enter a valid email address' : 'Please enter a valid Gmail address or educational email (.edu.in)'}
+                </p>
               )}
             </div>
 
@@ -208,19 +301,19 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
             <div className="space-y-2">
               <Label htmlFor="appPassword" className="flex items-center space-x-2">
                 <Key className="w-4 h-4" />
-                <span>App Password</span>
+                <span>{isSmtp ? 'Password' : 'App Password'}</span>
               </Label>
               <div className="relative">
                 <Input
                   id="appPassword"
                   type={showPassword ? 'text' : 'password'}
-                  placeholder="abcd efgh ijkl mnop"
-                  value={formatAppPassword(appPassword)}
-                  onChange={(e) => setAppPassword(e.target.value.replace(/\s/g, ''))}
+                  placeholder={isSmtp ? 'Leave blank if the server needs no login' : 'abcd efgh ijkl mnop'}
+                  value={isSmtp ? appPassword : formatAppPassword(appPassword)}
+                  onChange={(e) => setAppPassword(isSmtp ? e.target.value : e.target.value.replace(/\s/g, ''))}
                   disabled={isSubmitting || isValidating}
                   className={`pr-10 font-mono ${!isPasswordValid ? 'border-red-300 focus:border-red-500' : ''}`}
                   autoComplete="current-password"
-                  maxLength={19} // 16 chars + 3 spaces
+                  maxLength={isSmtp ? undefined : 19} // 16 chars + 3 spaces
                 />
                 <Button
                   type="button"
@@ -240,10 +333,17 @@ export default function DevNav({ isOpen, onClose, onSuccess }: DevNavProps) {
               {appPassword && !isPasswordValid && (
                 <p className="text-xs text-red-600">App password must be 16 characters (letters and numbers only)</p>
               )}
-              <p className="text-xs text-gray-500">
-                For Gmail: Google Account → Security → 2-Step Verification → App passwords<br/>
-                For .edu.in: Use your institutional email password or app-specific password
-              </p>
+              {isSmtp ? (
+                <p className="text-xs text-gray-500">
+                  Office 365: smtp.office365.com, STARTTLS, port 587<br/>
+                  Zoho: smtp.zoho.com, SSL/TLS, port 465
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  For Gmail: Google Account → Security → 2-Step Verification → App passwords<br/>
+                  For .edu.in: Use your institutional email password or app-specific password
+                </p>
+              )}
             </div>
 
             {/* Error Message */}
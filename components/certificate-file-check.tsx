@@ -0,0 +1,65 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { CheckCircle, FileSearch, XCircle } from "lucide-react"
+import { hashCertificateFile } from "@/lib/certificate-id"
+
+interface CertificateFileCheckProps {
+  contentHash: string
+}
+
+// Compare a file someone was given with the registered hash; the file never leaves the browser
+export default function CertificateFileCheck({ contentHash }: CertificateFileCheckProps) {
+  const [result, setResult] = useState<{ fileName: string; matches: boolean } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const checkFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setError(null)
+    try {
+      setResult({ fileName: file.name, matches: (await hashCertificateFile(file)) === contentHash })
+    } catch (err) {
+      console.error("[Verify] Could not hash file:", err)
+      setResult(null)
+      setError("This browser cannot check files here. Open the page over HTTPS and try again.")
+    }
+  }
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-4">
+      <p className="text-sm font-medium text-gray-700 mb-1">Have the certificate file?</p>
+      <p className="text-xs text-gray-500 mb-3">
+        Check that it is exactly the file that was issued, with nothing edited.
+      </p>
+      <label className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+        <FileSearch className="w-4 h-4 text-[#21808D]" />
+        Choose PNG or PDF
+        <input type="file" accept=".png,.pdf" onChange={checkFile} className="hidden" />
+      </label>
+
+      {result && (
+        <div
+          className={`flex items-start gap-2 mt-3 text-sm rounded-md p-3 border ${
+            result.matches ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800"
+          }`}
+        >
+          {result.matches ? (
+            <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          )}
+          <span className="break-words">
+            {result.matches
+              ? `${result.fileName} is the original certificate file.`
+              : `${result.fileName} does not match the issued certificate. It may have been edited, converted or re-saved.`}
+          </span>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { AlertCircle, CheckCircle, Paperclip } from "lucide-react"
+import { LOGO_CID } from "@/lib/email-template"
+import { MB } from "@/lib/email-providers/types"
+import type { DryRunReport as DryRunReportData } from "@/types/certificate"
+
+interface DryRunReportProps {
+  report: DryRunReportData
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+export default function DryRunReport({ report }: DryRunReportProps) {
+  // Email whose body is shown below the list
+  const [selected, setSelected] = useState<number | null>(null)
+  const problems = report.total - report.ready
+  const selectedEmail = selected === null ? null : report.emails[selected]
+
+  return (
+    <Card className="p-4 border-[#21808D]/40">
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-semibold text-[#1a1a1a]">Dry Run Report</p>
+        <p className="text-xs text-gray-500">Nothing was sent</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <p className="text-green-700">
+          <span className="font-semibold">{report.ready}</span> ready
+        </p>
+        <p className={problems > 0 ? "text-red-700" : "text-gray-600"}>
+          <span className="font-semibold">{problems}</span> with problems
+        </p>
+        <p className="text-gray-600">
+          <span className="font-semibold">{formatSize(report.totalSize)}</span> of attachments
+        </p>
+      </div>
+
+      {report.unknownMergeTags.length > 0 && (
+        <div className="flex items-start gap-2 mt-3 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            No column matches {report.unknownMergeTags.map((tag) => `{{${tag}}}`).join(", ")}. These tags render empty.
+          </span>
+        </div>
+      )}
+
+      <div className="mt-3 max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+        {report.emails.map((email, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setSelected(selected === index ? null : index)}
+            className={`w-full text-left flex items-start gap-2 px-3 py-2 text-xs hover:bg-gray-50 ${
+              selected === index ? "bg-[#21808D]/5" : ""
+            }`}
+          >
+            {email.problems.length > 0 ? (
+              <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+            ) : (
+              <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-[#1a1a1a]">
+                <span className="text-gray-500">{email.to || "no email"}</span> · {email.subject}
+              </p>
+              <p className="text-gray-500 truncate">
+                <Paperclip className="w-3 h-3 inline mr-1" />
+                {email.attachments.map((attachment) => `${attachment.filename} (${formatSize(attachment.size)})`).join(", ")}
+              </p>
+              {email.problems.map((problem) => (
+                <p key={problem} className="text-red-600 break-words">
+                  {problem}
+                </p>
+              ))}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {selectedEmail && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-gray-600">
+            From: <span className="font-medium">{selectedEmail.senderName}</span> · To: {selectedEmail.to}
+          </p>
+          <iframe
+            title="Rendered email"
+            sandbox=""
+            srcDoc={selectedEmail.html.split(`cid:${LOGO_CID}`).join("/klh.png")}
+            className="w-full h-[400px] bg-white border border-gray-200 rounded-md"
+          />
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { AlertCircle, RotateCcw } from "lucide-react"
+import type { EmailTemplate } from "@/types/certificate"
+import {
+  BUILT_IN_MERGE_TAGS,
+  DEFAULT_EMAIL_TEMPLATE,
+  LOGO_CID,
+  findUnknownMergeTags,
+  getMergeValues,
+  renderEmailTemplate,
+} from "@/lib/email-template"
+
+interface PreviewRecipient {
+  email: string
+  name: string
+  fileName: string
+  data?: Record<string, string>
+}
+
+interface EmailTemplateEditorProps {
+  template: EmailTemplate
+  onChange: (template: EmailTemplate) => void
+  // Recipients to preview against (the generated certificates, or the raw CSV rows)
+  recipients: PreviewRecipient[]
+  columns: string[]
+}
+
+type TemplatePart = keyof EmailTemplate
+
+export default function EmailTemplateEditor({ template, onChange, recipients, columns }: EmailTemplateEditorProps) {
+  const [previewIndex, setPreviewIndex] = useState(0)
+  // Merge tag buttons insert into whichever input was focused last
+  const [activePart, setActivePart] = useState<TemplatePart>("html")
+  const inputRefs = useRef<Partial<Record<TemplatePart, HTMLInputElement | HTMLTextAreaElement | null>>>({})
+
+  const mergeTags = [...BUILT_IN_MERGE_TAGS, ...columns.filter((column) => !BUILT_IN_MERGE_TAGS.includes(column))]
+  const unknownTags = findUnknownMergeTags(template, columns)
+
+  const previewRecipient = recipients[Math.min(previewIndex, recipients.length - 1)]
+  const preview = previewRecipient ? renderEmailTemplate(template, getMergeValues(previewRecipient)) : null
+
+  const updatePart = (part: TemplatePart, value: string) => {
+    onChange({ ...template, [part]: value })
+  }
+
+  const insertTag = (tag: string) => {
+    const input = inputRefs.current[activePart]
+    const text = template[activePart]
+    const start = input?.selectionStart ?? text.length
+    const end = input?.selectionEnd ?? text.length
+    const inserted = `{{${tag}}}`
+
+    updatePart(activePart, text.slice(0, start) + inserted + text.slice(end))
+
+    // Put the caret after the inserted tag once React has re-rendered the value
+    requestAnimationFrame(() => {
+      input?.focus()
+      input?.setSelectionRange(start + inserted.length, start + inserted.length)
+    })
+  }
+
+  const resetTemplate = () => {
+    if (confirm("Replace the current email template with the default?")) {
+      onChange(DEFAULT_EMAIL_TEMPLATE)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Editor */}
+      <Card className="p-6 bg-gray-50">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-[#1a1a1a]">Email Template</h3>
+          <Button variant="outline" size="sm" onClick={resetTemplate} className="bg-transparent">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Sender Name</label>
+            <input
+              ref={(el) => {
+                inputRefs.current.senderName = el
+              }}
+              type="text"
+              value={template.senderName}
+              onChange={(e) => updatePart("senderName", e.target.value)}
+              onFocus={() => setActivePart("senderName")}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Subject</label>
+            <input
+              ref={(el) => {
+                inputRefs.current.subject = el
+              }}
+              type="text"
+              value={template.subject}
+              onChange={(e) => updatePart("subject", e.target.value)}
+              onFocus={() => setActivePart("subject")}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Body (HTML)</label>
+            <textarea
+              ref={(el) => {
+                inputRefs.current.html = el
+              }}
+              value={template.html}
+              onChange={(e) => updatePart("html", e.target.value)}
+              onFocus={() => setActivePart("html")}
+              rows={16}
+              spellCheck={false}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-xs font-mono"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use <code>cid:{LOGO_CID}</code> as an image source to include the logo
+            </p>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Merge Tags</label>
+            <div className="flex flex-wrap gap-2">
+              {mergeTags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => insertTag(tag)}
+                  className="px-2 py-1 text-xs font-mono rounded-md border border-[#21808D]/40 text-[#1a6570] bg-white hover:bg-[#21808D]/10"
+                >
+                  {`{{${tag}}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {unknownTags.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                No column matches {unknownTags.map((tag) => `{{${tag}}}`).join(", ")}. These tags will be left empty.
+              </span>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Live preview */}
+      <Card className="p-6 bg-gray-50">
+        <div className="flex items-center justify-between mb-4 gap-4">
+          <h3 className="font-semibold text-[#1a1a1a]">Preview</h3>
+          {recipients.length > 0 && (
+            <select
+              value={Math.min(previewIndex, recipients.length - 1)}
+              onChange={(e) => setPreviewIndex(Number(e.target.value))}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm max-w-[60%]"
+            >
+              {recipients.map((recipient, index) => (
+                <option key={index} value={index}>
+                  {index + 1}. {recipient.name || recipient.email || "Recipient"}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {preview ? (
+          <div className="space-y-3">
+            <div className="text-sm space-y-1 bg-white border border-gray-200 rounded-md p-3">
+              <p>
+                <span className="text-gray-500">From:</span>{" "}
+                <span className="font-medium text-[#1a1a1a]">{preview.senderName}</span>
+              </p>
+              <p>
+                <span className="text-gray-500">To:</span> <span className="text-[#1a1a1a]">{previewRecipient.email}</span>
+              </p>
+              <p>
+                <span className="text-gray-500">Subject:</span>{" "}
+                <span className="font-medium text-[#1a1a1a]">{preview.subject}</span>
+              </p>
+            </div>
+            <iframe
+              title="Email preview"
+              sandbox=""
+              srcDoc={preview.html.split(`cid:${LOGO_CID}`).join("/klh.png")}
+              className="w-full h-[480px] bg-white border border-gray-200 rounded-md"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Upload recipients in the previous step to preview the email.</p>
+        )}
+      </Card>
+    </div>
+  )
+}
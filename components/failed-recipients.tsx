@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import FileSaver from "file-saver"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { AlertCircle, Download, RotateCw } from "lucide-react"
+import { formatCsv } from "@/lib/csv"
+import type { SendJobSummary } from "@/types/certificate"
+
+interface FailedRecipientsProps {
+  job: SendJobSummary
+  // Corrected addresses, keyed by the recipient's index in the job
+  onRetry: (emails: Record<number, string>) => void
+  disabled?: boolean
+}
+
+const CSV_HEADERS = ["Name", "Email", "File Name", "Status", "Attempts", "Error"]
+
+export default function FailedRecipients({ job, onRetry, disabled }: FailedRecipientsProps) {
+  const [edits, setEdits] = useState<Record<number, string>>({})
+
+  const failed = job.recipients
+    .map((recipient, index) => ({ recipient, index }))
+    // Duplicates already got their certificate; one another job was still sending is retried if that job did not send it
+    .filter(
+      ({ recipient }) =>
+        (recipient.status === "failed" || recipient.status === "skipped") &&
+        (!recipient.duplicateOf || recipient.error === "Already being sent by another job")
+    )
+
+  if (failed.length === 0) return null
+
+  const exportCsv = () => {
+    const csv = formatCsv(
+      CSV_HEADERS,
+      failed.map(({ recipient }) => ({
+        Name: recipient.name,
+        Email: recipient.email,
+        "File Name": recipient.fileName,
+        Status: recipient.status,
+        Attempts: recipient.attempts || 0,
+        Error: recipient.error,
+      }))
+    )
+    // BOM so Excel opens names with accents correctly
+    FileSaver.saveAs(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), `failed_recipients_${job.id.slice(0, 8)}.csv`)
+  }
+
+  const retry = () => {
+    // Only send addresses that were actually changed
+    const changed = Object.fromEntries(
+      Object.entries(edits).filter(([index, email]) => email.trim() !== job.recipients[Number(index)].email)
+    )
+    onRetry(changed)
+    setEdits({})
+  }
+
+  return (
+    <Card className="p-4 bg-red-50 border-red-200">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-red-900">{failed.length} Email(s) Not Sent</p>
+          <p className="text-xs text-red-700 mt-1">Fix any wrong addresses below, then retry just these recipients.</p>
+
+          <div className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+            {failed.map(({ recipient, index }) => (
+              <div key={index} className="bg-white border border-red-100 rounded-md p-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-[#1a1a1a] truncate w-1/3">{recipient.name}</span>
+                  <input
+                    type="email"
+                    value={edits[index] ?? recipient.email}
+                    onChange={(e) => setEdits((prev) => ({ ...prev, [index]: e.target.value }))}
+                    placeholder="email@example.com"
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </div>
+                {recipient.error && <p className="text-red-600 mt-1 break-words">{recipient.error}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mt-3">
+            <Button
+              onClick={retry}
+              disabled={disabled}
+              size="sm"
+              className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white"
+            >
+              <RotateCw className="w-4 h-4 mr-2" />
+              Retry Failed ({failed.length})
+            </Button>
+            <Button onClick={exportCsv} variant="outline" size="sm" className="bg-transparent">
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Loader2, RefreshCcw } from "lucide-react"
+import type { StoredCertificate } from "@/utils/storage"
+
+export interface ReissueOptions {
+  reason: string
+  adminKey: string
+  // Send the corrected certificates to just these recipients afterwards
+  email: boolean
+}
+
+interface ReissueCertificatesProps {
+  certificates: StoredCertificate[]
+  // Columns that appear on the certificate (or address it), offered for correction
+  columns: string[]
+  // Corrected rows, keyed by the certificate's index in the list; resolves to the number reissued
+  onReissue: (corrections: Record<number, Record<string, string>>, options: ReissueOptions) => Promise<number>
+}
+
+export default function ReissueCertificates({ certificates, columns, onReissue }: ReissueCertificatesProps) {
+  const [corrections, setCorrections] = useState<Record<number, Record<string, string>>>({})
+  const [search, setSearch] = useState("")
+  const [reason, setReason] = useState("")
+  // Kept in memory only; it is asked for again after a reload
+  const [adminKey, setAdminKey] = useState("")
+  const [email, setEmail] = useState(true)
+  const [isReissuing, setIsReissuing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reissuedCount, setReissuedCount] = useState(0)
+
+  // Only registered certificates have an ID to revoke
+  const issued = certificates
+    .map((certificate, index) => ({ certificate, index }))
+    .filter(({ certificate }) => certificate.data?.CertificateID)
+  if (issued.length === 0) return null
+
+  const query = search.trim().toLowerCase()
+  const shown = issued.filter(
+    ({ certificate, index }) =>
+      corrections[index] ||
+      !query ||
+      [certificate.name, certificate.email, certificate.data?.CertificateID ?? ""].some((value) =>
+        value.toLowerCase().includes(query)
+      )
+  )
+  const selectedCount = Object.keys(corrections).length
+
+  const toggle = (index: number) => {
+    setCorrections((prev) => {
+      const { [index]: selected, ...rest } = prev
+      return selected ? rest : { ...prev, [index]: { ...certificates[index].data } }
+    })
+  }
+
+  const edit = (index: number, column: string, value: string) => {
+    setCorrections((prev) => ({ ...prev, [index]: { ...prev[index], [column]: value } }))
+  }
+
+  const reissue = async () => {
+    setIsReissuing(true)
+    setError(null)
+    setReissuedCount(0)
+    try {
+      setReissuedCount(await onReissue(corrections, { reason: reason.trim(), adminKey: adminKey.trim(), email }))
+      setCorrections({})
+      setReason("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not reissue certificates")
+    } finally {
+      setIsReissuing(false)
+    }
+  }
+
+  return (
+    <Card className="p-6 bg-amber-50 border-amber-200">
+      <div className="flex items-start gap-3">
+        <RefreshCcw className="w-5 h-5 text-amber-700 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-[#1a1a1a]">Reissue Certificates</h3>
+          <p className="text-xs text-amber-800 mt-1">
+            Select certificates issued in error and correct their details. Each gets a new ID; the old one is revoked
+            and its verification page links to the corrected certificate. To revoke without a replacement, use{" "}
+            <a href="/revoke" className="underline">
+              /revoke
+            </a>
+            .
+          </p>
+
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, email or certificate ID"
+            className="w-full mt-3 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+
+          <div className="mt-2 space-y-2 max-h-80 overflow-y-auto">
+            {shown.map(({ certificate, index }) => (
+              <div key={index} className="bg-white border border-amber-100 rounded-md p-2 text-xs">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={!!corrections[index]} onChange={() => toggle(index)} />
+                  <span className="font-medium text-[#1a1a1a] truncate">{certificate.name}</span>
+                  <span className="text-gray-500 truncate">{certificate.email}</span>
+                  <span className="ml-auto font-mono text-gray-500">{certificate.data!.CertificateID}</span>
+                </label>
+                {corrections[index] && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {columns.map((column) => (
+                      <div key={column}>
+                        <label className="text-gray-600">{column}</label>
+                        <input
+                          value={corrections[index][column] ?? ""}
+                          onChange={(e) => edit(index, column, e.target.value)}
+                          className="w-full mt-0.5 px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            {shown.length === 0 && <p className="text-xs text-gray-500">No certificates match.</p>}
+          </div>
+
+          {reissuedCount > 0 && (
+            <p className="text-sm text-green-700 mt-3">
+              {reissuedCount} certificate{reissuedCount === 1 ? "" : "s"} reissued and downloaded as a ZIP file.
+            </p>
+          )}
+
+          {selectedCount > 0 && (
+            <div className="space-y-3 mt-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Reason</label>
+                <input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Name misspelled"
+                  maxLength={300}
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">Shown on the old certificate&apos;s verification page</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Admin Key</label>
+                <input
+                  type="password"
+                  value={adminKey}
+                  onChange={(e) => setAdminKey(e.target.value)}
+                  placeholder="REGISTRY_ADMIN_KEY"
+                  autoComplete="off"
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={email} onChange={(e) => setEmail(e.target.checked)} />
+                Email the corrected certificates to these recipients
+              </label>
+              <Button
+                onClick={reissue}
+                disabled={isReissuing || !adminKey.trim()}
+                className="bg-[#21808D] hover:bg-[#1a6570] text-white"
+              >
+                {isReissuing ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Reissuing...
+                  </>
+                ) : (
+                  <>
+                    <RefreshCcw className="w-4 h-4 mr-2" />
+                    Reissue {selectedCount} Certificate{selectedCount === 1 ? "" : "s"}
+                  </>
+                )}
+              </Button>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </Card>
+  )
+}
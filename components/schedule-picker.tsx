@@ -0,0 +1,52 @@
+"use client"
+
+import { useMemo } from "react"
+
+export interface ScheduleValue {
+  // datetime-local value, "YYYY-MM-DDTHH:mm", in timeZone
+  localTime: string
+  timeZone: string
+}
+
+interface SchedulePickerProps {
+  value: ScheduleValue
+  onChange: (value: ScheduleValue) => void
+}
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+
+// Date and time plus the time zone they are in, e.g. the ceremony venue's rather than the browser's
+export default function SchedulePicker({ value, onChange }: SchedulePickerProps) {
+  const timeZones = useMemo(() => {
+    const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : []
+    return zones.includes(value.timeZone) ? zones : [value.timeZone, ...zones]
+  }, [value.timeZone])
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div>
+        <label className="text-xs font-medium text-gray-700 mb-1 block">Date & Time</label>
+        <input
+          type="datetime-local"
+          value={value.localTime}
+          onChange={(e) => onChange({ ...value, localTime: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+      <div>
+        <label className="text-xs font-medium text-gray-700 mb-1 block">Time Zone</label>
+        <select
+          value={value.timeZone}
+          onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {timeZones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { CheckCircle, Clock, Loader2, MinusCircle, XCircle } from "lucide-react"
+import type { RecipientSendStatus, SendJobSummary } from "@/types/certificate"
+
+interface SendProgressProps {
+  job: SendJobSummary
+}
+
+const STATUS_STYLES: Record<RecipientSendStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "text-gray-500" },
+  sent: { label: "Sent", className: "text-green-700" },
+  failed: { label: "Failed", className: "text-red-700" },
+  skipped: { label: "Skipped", className: "text-gray-500" },
+}
+
+const StatusIcon = ({ status }: { status: RecipientSendStatus }) => {
+  switch (status) {
+    case "sent":
+      return <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+    case "failed":
+      return <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+    case "skipped":
+      return <MinusCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />
+    default:
+      return <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+  }
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+export default function SendProgress({ job }: SendProgressProps) {
+  const isRunning = job.status === "running"
+  const total = job.recipients.length
+  const processed = total - job.counts.queued
+
+  // Tick while running so elapsed time and ETA move between recipient updates
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (!isRunning) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [isRunning])
+
+  // Rate of the current run only, so a resumed job is not credited with earlier sends
+  const startedAt = job.startedAt ? Date.parse(job.startedAt) : null
+  const doneThisRun = startedAt
+    ? job.recipients.filter((recipient) => recipient.completedAt && Date.parse(recipient.completedAt) >= startedAt).length
+    : 0
+  const elapsed = startedAt ? (isRunning ? now : Date.parse(job.updatedAt)) - startedAt : 0
+  const perMinute = elapsed > 0 && doneThisRun > 0 ? (doneThisRun / elapsed) * 60000 : null
+  const eta = perMinute ? (job.counts.queued / perMinute) * 60000 : null
+
+  return (
+    <Card className="p-4 border-[#21808D]/40">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          {isRunning && <Loader2 className="w-4 h-4 text-[#21808D] animate-spin" />}
+          <p className="font-semibold text-[#1a1a1a]">
+            {isRunning ? "Sending Emails..." : "Delivery Report"}
+          </p>
+        </div>
+        <p className="text-sm text-gray-600">
+          {processed} / {total} processed
+        </p>
+      </div>
+
+      <Progress value={total > 0 ? (processed / total) * 100 : 0} className="bg-[#21808D]/20 [&>*]:bg-[#21808D]" />
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-3 text-xs">
+        <p className="text-green-700">
+          <span className="font-semibold">{job.counts.sent}</span> sent
+        </p>
+        <p className="text-red-700">
+          <span className="font-semibold">{job.counts.failed}</span> failed
+        </p>
+        <p className="text-gray-600">
+          <span className="font-semibold">{job.counts.skipped}</span> skipped
+        </p>
+        <p className="text-gray-600">
+          <span className="font-semibold">{job.counts.queued}</span> queued
+        </p>
+      </div>
+
+      {startedAt && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+          <span>Elapsed: {formatDuration(elapsed)}</span>
+          {perMinute !== null && <span>Throughput: {perMinute.toFixed(1)} emails/min</span>}
+          {isRunning && <span>ETA: {eta !== null ? formatDuration(eta) : "estimating..."}</span>}
+        </div>
+      )}
+
+      <div className="mt-3 max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+        {job.recipients.map((recipient, index) => (
+          <div key={index} className="flex items-start gap-2 px-3 py-2 text-xs">
+            <StatusIcon status={recipient.status} />
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-[#1a1a1a]">
+                {recipient.name} <span className="text-gray-500">&lt;{recipient.email || "no email"}&gt;</span>
+              </p>
+              {recipient.error && recipient.status !== "sent" && (
+                <p className={`break-words ${recipient.duplicateOf ? "text-gray-500" : "text-red-600"}`}>
+                  {recipient.error}
+                </p>
+              )}
+              {(recipient.attempts || 0) > 1 && (
+                <p className="text-gray-500">{recipient.attempts} attempts</p>
+              )}
+            </div>
+            <span className={STATUS_STYLES[recipient.status].className}>{STATUS_STYLES[recipient.status].label}</span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
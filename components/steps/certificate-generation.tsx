@@ -5,311 +5,209 @@ import type React from "react"
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Upload, Download, Loader2, CheckCircle, AlertCircle, Mail } from "lucide-react"
+import { Upload, Download, Loader2, CheckCircle, AlertCircle, Mail, ShieldCheck, FileSignature, Award } from "lucide-react"
 import JSZip from "jszip"
 import FileSaver from "file-saver"
-import type { CertificateField } from "@/types/certificate"
-import { saveSession, loadSession,  base64ToBlob } from "@/utils/storage"
-import { useCredentials } from "@/hooks/useCredentials"
-import DevNav from "@/components/DevNav"
+import type {
+  BadgeToIssue,
+  CertificateField,
+  CertificateRecord,
+  FileToSign,
+  IssuerKeyInfo,
+  OpenBadge,
+  OutputFormat,
+  ReissuedCertificate,
+  SignedFile,
+} from "@/types/certificate"
+import { saveSession, loadSession, type StoredCertificate } from "@/utils/storage"
+import { createVectorCertificatePdf } from "@/lib/pdf"
+import { drawFieldText } from "@/lib/text-layout"
+import { buildQrPayload, drawFieldQr, isQrField, DEFAULT_QR_PATTERN } from "@/lib/qr-code"
+import { autoMapFields, getPresetLabel } from "@/lib/field-labels"
+import { parseCsvFile, type CsvParseError } from "@/lib/csv"
+import { isSpreadsheetFile, readWorkbook, getSheetGrid, gridToTable, SPREADSHEET_EXTENSIONS } from "@/lib/spreadsheet"
+import type { WorkBook } from "xlsx"
+import { getRecipientEmail, getRecipientName } from "@/lib/email-template"
+import {
+  createCertificateId,
+  getVerificationPath,
+  hashCertificateFile,
+  MAX_REGISTRATION_BATCH,
+} from "@/lib/certificate-id"
+import { buildSignatureManifest, SIGNATURE_MANIFEST_FILE } from "@/lib/certificate-signature"
+import { getBadgeFileName } from "@/lib/certificate-format"
+import ReissueCertificates, { type ReissueOptions } from "@/components/reissue-certificates"
+
+// Stands in for real IDs in the live preview, which are only drawn at generation time
+const PREVIEW_CERTIFICATE_ID = "XXXX-XXXX-XXXX"
 
 interface CertificateGenerationProps {
   templateImage: string
   fields: CertificateField[]
+  generatedCertificates: StoredCertificate[]
   onCsvUpload: (data: Array<Record<string, string>>) => void
+  onCertificatesGenerated: (certificates: StoredCertificate[]) => void
+  // Go on to email just these (reissued) certificates
+  onEmailCertificates: (certificates: StoredCertificate[]) => void
+  onNext: () => void
   onBack: () => void
 }
 
 export default function CertificateGeneration({
   templateImage,
   fields,
+  generatedCertificates,
   onCsvUpload,
+  onCertificatesGenerated,
+  onEmailCertificates,
+  onNext,
   onBack,
 }: CertificateGenerationProps) {
   const [csvData, setCsvData] = useState<Array<Record<string, string>>>([])
   const [csvHeaders, setCsvHeaders] = useState<string[]>([])
+  const [csvErrors, setCsvErrors] = useState<CsvParseError[]>([])
+  const [spreadsheet, setSpreadsheet] = useState<{ fileName: string; workbook: WorkBook } | null>(null)
+  const [selectedSheet, setSelectedSheet] = useState("")
+  const [sheetGrid, setSheetGrid] = useState<string[][]>([])
+  const [headerRowIndex, setHeaderRowIndex] = useState(0)
   const [fieldMapping, setFieldMapping] = useState<Record<string, string>>({})
   const [isGenerating, setIsGenerating] = useState(false)
-  const [outputFormat, setOutputFormat] = useState<"png" | "pdf">("png")
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("png")
   const [quality, setQuality] = useState<"standard" | "high">("standard")
-  const [generationStatus, setGenerationStatus] = useState<"idle" | "success" | "error">("idle")
-  const [generatedCount, setGeneratedCount] = useState(0)
-  const [generatedCertificates, setGeneratedCertificates] = useState<Array<{
-    email: string
-    name: string
-    certificateBlob: Blob
-    fileName: string
-  }>>([])
-  const [emailStatus, setEmailStatus] = useState<"idle" | "sending" | "success" | "error">("idle")
-  const [emailsSent, setEmailsSent] = useState(0)
-  const [emailErrors, setEmailErrors] = useState<Array<{ email: string; error: string }>>([])
-  const [isSendingMail, setIsSendingMail] = useState(false)
-  const [emailProvider, setEmailProvider] = useState<"resend" | "gmail">("resend")
-  const [sendingMode, setSendingMode] = useState<"auto" | "sequential" | "pooled">("auto")
-  const [showDevNav, setShowDevNav] = useState(false)
+  // Generated certificates are restored with the session; only their status is shown again
+  const [generationStatus, setGenerationStatus] = useState<"idle" | "success" | "error">(
+    generatedCertificates.length > 0 ? "success" : "idle"
+  )
+  const [generatedCount, setGeneratedCount] = useState(generatedCertificates.length)
+  // Give every certificate an ID and record it for public verification at /verify
+  const [registerCertificates, setRegisterCertificates] = useState(true)
+  // Course shown by the verification page, and named by Open Badges, when no field holds it
+  const [courseName, setCourseName] = useState("")
+  // Hashing needs a secure context (HTTPS or localhost)
+  const [canRegister, setCanRegister] = useState(true)
+  const [registeredCount, setRegisteredCount] = useState(0)
+  // Characters the PDF fonts could not draw in the last run, drawn as a base letter or "?"
+  const [replacedCharacters, setReplacedCharacters] = useState<string[]>([])
+  // Add the issuer's signature for every file as signatures.json in the ZIP
+  const [signCertificates, setSignCertificates] = useState(false)
+  // Add a signed Open Badges 3.0 credential for every certificate to the ZIP
+  const [exportBadges, setExportBadges] = useState(false)
+  // Registering, signing and badges need the registry admin key; kept in memory only, so it is asked for again after a reload
+  const [registryAdminKey, setRegistryAdminKey] = useState("")
   const fileInputRef = useRef<HTMLInputElement>(null)
   const previewCanvasRef = useRef<HTMLCanvasElement>(null)
-  
-  // Use credentials hook
-  const credentialsData = useCredentials()
-  const { isAuthenticated, email: authenticatedEmail, checkCredentials } = credentialsData
-  
-  // Debug logging
   useEffect(() => {
-    console.log('[CertGen] useCredentials state changed:', credentialsData)
-  }, [credentialsData])
-
-  // Restore generated certificates from session on mount
-  useEffect(() => {
-    const session = loadSession()
-    
-    // Restore CSV data and field mapping
-    if (session.csvData && session.csvData.length > 0) {
-      console.log("[Session] Restoring CSV data:", session.csvData.length, "rows")
-      setCsvData(session.csvData)
-      onCsvUpload(session.csvData)
-    }
-    
-    if (session.csvHeaders && session.csvHeaders.length > 0) {
-      console.log("[Session] Restoring CSV headers:", session.csvHeaders)
-      setCsvHeaders(session.csvHeaders)
-    }
-    
-    if (session.fieldMapping) {
-      console.log("[Session] Restoring field mapping:", session.fieldMapping)
-      setFieldMapping(session.fieldMapping)
-    }
-    
-    // Restore generated certificates
-    if (session.generatedCertificates && session.generatedCertificates.length > 0) {
-      console.log("[Session] Restoring generated certificates:", session.generatedCertificates.length)
-      const restoredCerts = session.generatedCertificates.map((cert) => ({
-        email: cert.email,
-        name: cert.name,
-        certificateBlob: base64ToBlob(cert.certificateBlobBase64),
-        fileName: cert.fileName,
-      }))
-      setGeneratedCertificates(restoredCerts)
-      setGenerationStatus("success")
-      setGeneratedCount(restoredCerts.length)
-    }
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- a secure context is only known in the browser, and the server render must match the first client render
+    setCanRegister(typeof crypto !== "undefined" && !!crypto.subtle)
   }, [])
 
-  const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-
-    const reader = new FileReader()
-    reader.onload = (event) => {
-      const text = event.target?.result as string
-      const lines = text.split("\n").filter((line) => line.trim())
-
-      const headers = lines[0].split(",").map((h) => h.trim().replace(/^["']|["']$/g, ""))
-
-      setCsvHeaders(headers)
-
-      const data = lines.slice(1).map((line) => {
-        const values = line.split(",").map((v) => v.trim().replace(/^["']|["']$/g, ""))
-        return headers.reduce(
-          (obj, header, index) => {
-            obj[header] = values[index] || ""
-            return obj
-          },
-          {} as Record<string, string>,
-        )
-      })
-
-      setCsvData(data)
-      onCsvUpload(data)
-      setGenerationStatus("idle")
-
-      const autoMapping: Record<string, string> = {}
-      fields.forEach((field) => {
-        if (field.name === "Name") {
-          const firstNameCol = headers.find((h) => h.toLowerCase() === "firstname")
-          const lastNameCol = headers.find((h) => h.toLowerCase() === "lastname")
-          if (firstNameCol && lastNameCol) {
-            autoMapping[field.id] = `${firstNameCol}|${lastNameCol}`
-          } else {
-            const nameCol = headers.find((h) => h.toLowerCase() === "name")
-            if (nameCol) autoMapping[field.id] = nameCol
-          }
-        } else {
-          const matchingHeader = headers.find((h) => h.toLowerCase() === field.name.toLowerCase())
-          if (matchingHeader) {
-            autoMapping[field.id] = matchingHeader
-          }
-        }
-      })
-      setFieldMapping(autoMapping)
-      
-      // Save CSV data and headers to session
-      saveSession({ 
-        csvData: data, 
-        csvHeaders: headers,
-        fieldMapping: autoMapping
-      })
-      console.log("[Session] Saved CSV data and field mapping to localStorage")
-    }
-    reader.readAsText(file)
-  }
-
+  // Restore generated certificates from session on mount
   useEffect(() => {
-    if (!previewCanvasRef.current || csvData.length === 0) return
-
-    const canvas = previewCanvasRef.current
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    img.onload = () => {
-      canvas.width = img.width
-      canvas.height = img.height
-      ctx.drawImage(img, 0, 0)
-
-      const row = csvData[0]
-
-      fields.forEach((field) => {
-        const csvColumn = fieldMapping[field.id]
-        let text = ""
-
-        if (csvColumn) {
-          if (csvColumn.includes("|")) {
-            const [firstCol, lastCol] = csvColumn.split("|")
-            text = `${row[firstCol] || ""} ${row[lastCol] || ""}`.trim()
-          } else {
-            text = row[csvColumn] || ""
-          }
-        }
-
-        if (!text) return
+    loadSession(["csvData", "csvHeaders", "fieldMapping"]).then((session) => {
+      // Restore CSV data and field mapping
+      if (session.csvData && session.csvData.length > 0) {
+        console.log("[Session] Restoring CSV data:", session.csvData.length, "rows")
+        setCsvData(session.csvData)
+        onCsvUpload(session.csvData)
+      }
 
-        const fontString = `${field.fontWeight} ${field.fontSize}px "${field.fontFamily}", serif`
+      if (session.csvHeaders && session.csvHeaders.length > 0) {
+        console.log("[Session] Restoring CSV headers:", session.csvHeaders)
+        setCsvHeaders(session.csvHeaders)
+      }
 
-        ctx.font = fontString
-        ctx.fillStyle = field.color
-        ctx.textAlign = field.alignment
+      if (session.fieldMapping) {
+        console.log("[Session] Restoring field mapping:", session.fieldMapping)
+        setFieldMapping(session.fieldMapping)
+      }
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- restores once on mount; onCsvUpload is a new function on every parent render
+  }, [])
 
-        const x =
-          field.alignment === "center" ? field.x : field.alignment === "right" ? field.x + (field.maxWidth || 0) : field.x
-        ctx.fillText(text, x, field.y, field.maxWidth)
-      })
-    }
-    img.src = templateImage
-  }, [csvData, fieldMapping, fields, templateImage])
+  // Shared by CSV and spreadsheet import: load recipients and auto-map fields to columns
+  const applyRecipientData = (headers: string[], data: Array<Record<string, string>>) => {
+    setCsvHeaders(headers)
+    setCsvData(data)
+    onCsvUpload(data)
+    setGenerationStatus("idle")
 
-  // Helper function to convert Blob to base64
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        const base64 = (reader.result as string).split(',')[1] // Remove data:image/png;base64, prefix
-        resolve(base64)
-      }
-      reader.onerror = reject
-      reader.readAsDataURL(blob)
+    const autoMapping = autoMapFields(fields, headers)
+    setFieldMapping(autoMapping)
+    
+    // Save CSV data and headers to session
+    saveSession({ 
+      csvData: data, 
+      csvHeaders: headers,
+      fieldMapping: autoMapping
     })
+    console.log("[Session] Saved CSV data and field mapping to IndexedDB")
   }
 
-  const sendEmailsOnly = async () => {
-    console.log(`[sendEmailsOnly] Starting - isAuthenticated: ${isAuthenticated}, emailProvider: ${emailProvider}`)
-    
-    if (generatedCertificates.length === 0) {
-      alert("Please generate certificates first")
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    // Allow re-selecting the same file after fixing it
+    e.target.value = ""
+
+    if (isSpreadsheetFile(file.name)) {
+      await handleSpreadsheetUpload(file)
       return
     }
 
-    // Check if Gmail is selected and credentials are required
-    // Also check if credentials exist in storage as a fallback
-    const hasStoredCredentials = await (async () => {
-      try {
-        const { hasValidCredentials } = await import('@/utils/secure-storage')
-        return await hasValidCredentials()
-      } catch {
-        return false
+    try {
+      const { headers, rows: data, delimiter, errors } = await parseCsvFile(file)
+      console.log(`[CSV] Parsed ${data.length} rows (delimiter: ${JSON.stringify(delimiter)}, ${errors.length} errors)`)
+
+      setCsvErrors(errors)
+      setSpreadsheet(null)
+      if (headers.length === 0) {
+        alert("The CSV file is empty")
+        return
       }
-    })()
-    
-    console.log(`[sendEmailsOnly] hasStoredCredentials: ${hasStoredCredentials}`)
-    
-    if (emailProvider === "gmail" && !isAuthenticated && !hasStoredCredentials) {
-      console.log('[sendEmailsOnly] Not authenticated, showing DevNav again')
-      setShowDevNav(true)
-      return
-    }
-    
-    console.log('[sendEmailsOnly] Proceeding with email sending...')
 
-    setIsSendingMail(true)
-    setEmailStatus("sending")
-    setEmailsSent(0)
-    setEmailErrors([])
+      applyRecipientData(headers, data)
+    } catch (error) {
+      console.error("[CSV] Failed to read file:", error)
+      alert("Could not read the CSV file. Please check the file and try again.")
+    }
+  }
 
+  const handleSpreadsheetUpload = async (file: File) => {
     try {
-      // Get credentials from secure storage (client-side only)
-      let credentials = null
-      if (emailProvider === "gmail") {
-        const { decryptCredentials } = await import('@/utils/secure-storage')
-        credentials = await decryptCredentials()
-        
-        if (!credentials) {
-          console.log('[sendEmailsOnly] No credentials found after checking storage')
-          setShowDevNav(true)
-          return
-        }
-        
-        console.log('[sendEmailsOnly] Credentials found, proceeding with email sending')
+      const workbook = await readWorkbook(file)
+      if (workbook.SheetNames.length === 0) {
+        alert("The spreadsheet has no sheets")
+        return
       }
 
-      // Convert blobs to base64 before sending
-      const recipientsWithBase64 = await Promise.all(
-        generatedCertificates.map(async (recipient) => ({
-          email: recipient.email,
-          name: recipient.name,
-          certificateBase64: await blobToBase64(recipient.certificateBlob),
-          fileName: recipient.fileName,
-        }))
-      )
-      
-      const response = await fetch("/api/send-certificates", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          recipients: recipientsWithBase64, 
-          provider: emailProvider,
-          sendingMode: sendingMode === "auto" ? undefined : sendingMode,
-          // Pass credentials to server for Gmail
-          credentials: credentials ? {
-            email: credentials.email,
-            appPassword: credentials.appPassword
-          } : null
-        }),
-      })
-
-      const result = await response.json()
+      console.log(`[Spreadsheet] Loaded ${file.name} with sheets:`, workbook.SheetNames)
+      setCsvErrors([])
+      setSpreadsheet({ fileName: file.name, workbook })
+      await selectSheet(workbook, workbook.SheetNames[0])
+    } catch (error) {
+      console.error("[Spreadsheet] Failed to read file:", error)
+      alert("Could not read the spreadsheet. Please check the file and try again.")
+    }
+  }
 
-      console.log("[Client] Email API response:", result)
+  const selectSheet = async (workbook: WorkBook, sheetName: string) => {
+    const grid = await getSheetGrid(workbook, sheetName)
+    setSelectedSheet(sheetName)
+    setSheetGrid(grid)
+    // Default to the first non-blank row as the header
+    setHeaderRowIndex(Math.max(0, grid.findIndex((row) => row.some((cell) => String(cell).trim() !== ""))))
+  }
 
-      if (result.success) {
-        setEmailStatus("success")
-        setEmailsSent(result.sentCount)
-        if (result.errors.length > 0) {
-          setEmailErrors(result.errors)
-          console.error("[Client] Some emails failed:", result.errors)
-        }
-      } else {
-        setEmailStatus("error")
-        setEmailErrors([{ email: "all", error: result.error || "Unknown error" }])
-        console.error("[Client] API error:", result)
-      }
-    } catch (error) {
-      console.error("[Client] Error sending emails:", error)
-      setEmailStatus("error")
-      setEmailErrors([{ email: "all", error: "Failed to send emails. Please try again." }])
-    } finally {
-      setIsSendingMail(false)
+  const importSelectedSheet = () => {
+    const { headers, rows } = gridToTable(sheetGrid, headerRowIndex)
+    if (rows.length === 0) {
+      alert("No data rows found below the selected header row")
+      return
     }
+
+    console.log(`[Spreadsheet] Importing ${rows.length} rows from sheet "${selectedSheet}"`)
+    applyRecipientData(headers, rows)
+    setSpreadsheet(null)
   }
 
   const generateCertificates = async () => {
@@ -318,101 +216,381 @@ export default function CertificateGeneration({
       return
     }
 
+    const withIds = registerCertificates && canRegister
+    const withSignatures = signCertificates && canRegister
+    if ((withIds || withSignatures || exportBadges) && !registryAdminKey.trim()) {
+      alert("Enter the admin key to register, sign or issue badges for certificates")
+      return
+    }
+
     setIsGenerating(true)
     setGenerationStatus("idle")
     setGeneratedCount(0)
-    setEmailStatus("idle")
-    setEmailsSent(0)
-    setEmailErrors([])
+    setRegisteredCount(0)
+    setReplacedCharacters([])
 
     try {
       const zip = new JSZip()
-      const dpi = quality === "high" ? 300 : 72
-      const scale = dpi / 72
-      const emailRecipients: Array<{
-        email: string
-        name: string
-        certificateBlob: Blob
-        fileName: string
-      }> = []
+      const scale = getRenderScale()
+      const emailRecipients: StoredCertificate[] = []
+      const registrations: CertificateRecord[] = []
+      const filesToSign: FileToSign[] = []
+      const badgesToIssue: BadgeToIssue[] = []
+      const templateSize = await getTemplateSize()
+      const issuedAt = new Date().toISOString()
+      const replaced = new Set<string>()
 
       for (let i = 0; i < csvData.length; i++) {
-        const row = csvData[i]
-        const canvas = await createCertificateCanvas(row, scale)
-        const blob = await new Promise<Blob>((resolve, reject) => {
-          canvas.toBlob((blob) => {
-            if (blob) resolve(blob)
-            else reject(new Error("Failed to create blob"))
-          }, "image/png")
-        })
+        const certificateId = withIds ? createCertificateId() : null
+        const row = certificateId ? withCertificateId(csvData[i], certificateId) : csvData[i]
+        const blob = await renderCertificate(row, scale, templateSize, (characters) =>
+          characters.forEach((character) => replaced.add(character))
+        )
+        const filename = getCertificateFileName(row, String(i + 1).padStart(3, "0"))
 
-        const filename = `${row.ID || String(i + 1).padStart(3, "0")}_${row.FirstName}_${row.LastName}.png`
+        const contentHash = certificateId || withSignatures ? await hashCertificateFile(blob) : ""
+        if (certificateId) {
+          registrations.push(createRegistration(row, certificateId, contentHash, issuedAt))
+        }
+        if (withSignatures) {
+          filesToSign.push({ fileName: filename, contentHash, ...(certificateId && { certificateId }) })
+        }
+        if (exportBadges) {
+          badgesToIssue.push(createBadge(row, certificateId, issuedAt))
+        }
 
         zip.file(filename, blob)
 
-        // Store certificate for potential email sending (check for email field - case insensitive)
-        const emailField = Object.keys(row).find(key => key.toLowerCase() === 'email')
-        const emailAddress = emailField ? row[emailField] : null
+        // Every certificate is kept, so ones without an address can still be reissued;
+        // sending skips them (check for email field - case insensitive)
+        const emailAddress = getRecipientEmail(row)
         
         console.log(`[Row ${i}] Email field:`, emailAddress, "| All fields:", Object.keys(row))
         
-        if (emailAddress && emailAddress.trim()) {
-          // Try to get first and last name (case insensitive)
-          const firstNameField = Object.keys(row).find(key => key.toLowerCase() === 'firstname')
-          const lastNameField = Object.keys(row).find(key => key.toLowerCase() === 'lastname')
-          
-          const firstName = firstNameField ? row[firstNameField] : ""
-          const lastName = lastNameField ? row[lastNameField] : ""
-          const recipientName = `${firstName} ${lastName}`.trim() || "Recipient"
-
-          emailRecipients.push({
-            email: emailAddress.trim(),
-            name: recipientName,
-            certificateBlob: blob,
-            fileName: filename,
-          })
-          
-          console.log(`[Row ${i}] Added to email list:`, emailAddress, recipientName)
-        } else {
-          console.warn(`[Row ${i}] No email found in row, skipping email for this certificate`)
+        emailRecipients.push({
+          email: emailAddress,
+          name: getRecipientName(row),
+          certificateBlob: blob,
+          fileName: filename,
+          // Keep the whole row for email merge tags
+          data: row,
+        })
+
+        if (!emailAddress) {
+          console.warn(`[Row ${i}] No email found in row, this certificate will not be emailed`)
         }
 
         setGeneratedCount(i + 1)
       }
 
+      // Signed first, so a wrong admin key stops the run before anything is registered
+      if (withSignatures) {
+        zip.file(SIGNATURE_MANIFEST_FILE, await signFiles(filesToSign, registryAdminKey.trim()))
+      }
+      if (exportBadges) {
+        // One badge per row, in the same order as the certificates
+        const badges = await issueBadges(badgesToIssue, registryAdminKey.trim())
+        badges.forEach((badge, index) => {
+          addBadgeFiles(zip, emailRecipients[index].fileName, badge)
+          emailRecipients[index].badge = badge
+        })
+      }
+
+      // Registered before anything is handed out, so no certificate exists that would fail verification
+      await saveRegistrations(registrations, registryAdminKey.trim())
+      setRegisteredCount(registrations.length)
+
       // Store generated certificates for later email sending
-      setGeneratedCertificates(emailRecipients)
+      onCertificatesGenerated(emailRecipients)
       
-      console.log("[Certificate Generation] Generated certificates for email:", emailRecipients.length)
+      console.log("[Certificate Generation] Generated certificates:", emailRecipients.length)
       console.log("[Certificate Generation] Email recipients:", emailRecipients.map(r => r.email))
 
-      // Save generated certificates to session storage
-      const certificatesForStorage = await Promise.all(
-        emailRecipients.map(async (cert) => ({
-          email: cert.email,
-          name: cert.name,
-          certificateBlobBase64: await blobToBase64(cert.certificateBlob),
-          fileName: cert.fileName,
-        }))
-      )
-      saveSession({ generatedCertificates: certificatesForStorage })
-      console.log("[Session] Saved generated certificates to localStorage")
+      // Save generated certificates to session storage (Blobs are stored natively)
+      if (await saveSession({ generatedCertificates: emailRecipients })) {
+        console.log("[Session] Saved generated certificates to IndexedDB")
+      }
 
       const zipBlob = await zip.generateAsync({ type: "blob" })
       const timestamp = new Date().toISOString().split("T")[0]
       const zipFilename = `certificates_${timestamp}.zip`
       FileSaver.saveAs(zipBlob, zipFilename)
 
+      setReplacedCharacters([...replaced])
       setGenerationStatus("success")
     } catch (error) {
       console.error("Error generating certificates:", error)
       setGenerationStatus("error")
-      alert("Error generating certificates. Please try again.")
+      alert(`Error generating certificates: ${error instanceof Error ? error.message : "please try again"}`)
     } finally {
       setIsGenerating(false)
     }
   }
 
+  /**
+   * Replace certificates issued in error: re-render the corrected rows with new
+   * IDs, then have the registry revoke each old ID in favour of its replacement.
+   * Only the corrected certificates are downloaded (and optionally emailed).
+   */
+  const reissueCertificates = async (
+    corrections: Record<number, Record<string, string>>,
+    { reason, adminKey, email }: ReissueOptions,
+  ): Promise<number> => {
+    const zip = new JSZip()
+    const scale = getRenderScale()
+    const templateSize = await getTemplateSize()
+    const issuedAt = new Date().toISOString()
+    const updated = [...generatedCertificates]
+    const reissued: StoredCertificate[] = []
+    const records: ReissuedCertificate[] = []
+    const filesToSign: FileToSign[] = []
+    const badgesToIssue: BadgeToIssue[] = []
+
+    for (const [key, corrected] of Object.entries(corrections)) {
+      const index = Number(key)
+      const previous = generatedCertificates[index]
+      // Only registered certificates are offered for reissue, but the list may have changed since
+      const supersedes = previous?.data?.CertificateID
+      if (!supersedes) throw new Error(`Certificate ${index + 1} has no ID to replace`)
+      const certificateId = createCertificateId()
+      const row = withCertificateId(corrected, certificateId)
+      const blob = await renderCertificate(row, scale, templateSize)
+      // Keep the original's number so the corrected file sorts in its place
+      const fileName = getCertificateFileName(row, previous.fileName.split("_")[0])
+
+      const contentHash = await hashCertificateFile(blob)
+
+      records.push({
+        ...createRegistration(row, certificateId, contentHash, issuedAt),
+        supersedes,
+      })
+      filesToSign.push({ fileName, contentHash, certificateId })
+      badgesToIssue.push(createBadge(row, certificateId, issuedAt))
+      zip.file(fileName, blob)
+      updated[index] = {
+        email: getRecipientEmail(row),
+        name: getRecipientName(row),
+        certificateBlob: blob,
+        fileName,
+        data: row,
+      }
+      reissued.push(updated[index])
+    }
+
+    // Signed with the same admin key when signing is on for the batch
+    if (signCertificates) zip.file(SIGNATURE_MANIFEST_FILE, await signFiles(filesToSign, adminKey))
+    if (exportBadges) {
+      const badges = await issueBadges(badgesToIssue, adminKey)
+      reissued.forEach((certificate, index) => {
+        addBadgeFiles(zip, certificate.fileName, badges[index])
+        certificate.badge = badges[index]
+      })
+    }
+
+    for (let start = 0; start < records.length; start += MAX_REGISTRATION_BATCH) {
+      const response = await fetch("/api/certificates/reissue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminKey}` },
+        body: JSON.stringify({ reason, certificates: records.slice(start, start + MAX_REGISTRATION_BATCH) }),
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || "Could not reissue certificates")
+    }
+    console.log("[Certificate Generation] Reissued", records.length, "certificates")
+
+    onCertificatesGenerated(updated)
+    if (await saveSession({ generatedCertificates: updated })) {
+      console.log("[Session] Saved reissued certificates to IndexedDB")
+    }
+
+    const zipBlob = await zip.generateAsync({ type: "blob" })
+    FileSaver.saveAs(zipBlob, `certificates_reissued_${issuedAt.split("T")[0]}.zip`)
+
+    const recipients = reissued.filter((certificate) => certificate.email)
+    if (email && recipients.length > 0) onEmailCertificates(recipients)
+    return records.length
+  }
+
+  // The ID and verification link are offered to QR codes and email templates as {{CertificateID}} and {{VerificationURL}}
+  const withCertificateId = (row: Record<string, string>, certificateId: string): Record<string, string> => ({
+    ...row,
+    CertificateID: certificateId,
+    VerificationURL: `${window.location.origin}${getVerificationPath(certificateId)}`,
+  })
+
+  // A QR field's "text" is its payload, built from the row rather than a mapped column
+  const getFieldText = (field: CertificateField, data: Record<string, string>): string => {
+    if (isQrField(field)) return buildQrPayload(field.qrPattern ?? DEFAULT_QR_PATTERN, data)
+
+    const csvColumn = fieldMapping[field.id]
+    if (!csvColumn) return ""
+
+    if (csvColumn.includes("|")) {
+      const [firstCol, lastCol] = csvColumn.split("|")
+      return `${data[firstCol] || ""} ${data[lastCol] || ""}`.trim()
+    }
+    return data[csvColumn] || ""
+  }
+
+  // Text of the first field with this preset label (e.g. "Course" also matches a "Programme" field)
+  const getPresetFieldText = (preset: string, data: Record<string, string>) => {
+    const field = fields.find((candidate) => getPresetLabel(candidate.name) === preset)
+    return field ? getFieldText(field, data).trim() : ""
+  }
+
+  const saveRegistrations = async (records: CertificateRecord[], adminKey: string) => {
+    for (let start = 0; start < records.length; start += MAX_REGISTRATION_BATCH) {
+      const response = await fetch("/api/certificates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminKey}` },
+        body: JSON.stringify({ certificates: records.slice(start, start + MAX_REGISTRATION_BATCH) }),
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || "Could not register certificates")
+    }
+    if (records.length > 0) console.log("[Certificate Generation] Registered", records.length, "certificates for verification")
+  }
+
+  // Returns the signatures.json text for these files
+  const signFiles = async (files: FileToSign[], adminKey: string): Promise<string> => {
+    const signatures: SignedFile[] = []
+    let issuer: IssuerKeyInfo | null = null
+    for (let start = 0; start < files.length; start += MAX_REGISTRATION_BATCH) {
+      const response = await fetch("/api/certificates/sign", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminKey}` },
+        body: JSON.stringify({ certificates: files.slice(start, start + MAX_REGISTRATION_BATCH) }),
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || "Could not sign certificates")
+      issuer = result.issuer
+      signatures.push(...result.signatures)
+    }
+    console.log("[Certificate Generation] Signed", signatures.length, "certificates")
+    return JSON.stringify(buildSignatureManifest(issuer!, signatures), null, 2)
+  }
+
+  const issueBadges = async (badges: BadgeToIssue[], adminKey: string): Promise<OpenBadge[]> => {
+    const issued: OpenBadge[] = []
+    for (let start = 0; start < badges.length; start += MAX_REGISTRATION_BATCH) {
+      const response = await fetch("/api/certificates/badges", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminKey}` },
+        body: JSON.stringify({ badges: badges.slice(start, start + MAX_REGISTRATION_BATCH) }),
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error || "Could not issue badges")
+      issued.push(...result.badges)
+    }
+    console.log("[Certificate Generation] Issued", issued.length, "Open Badges")
+    return issued
+  }
+
+  // Each badge goes in badges/ as readable JSON-LD and as the signed VC-JWT wallets import
+  const addBadgeFiles = (zip: JSZip, certificateFileName: string, badge: OpenBadge) => {
+    zip.file(`badges/${getBadgeFileName(certificateFileName, "json")}`, badge.credential)
+    zip.file(`badges/${getBadgeFileName(certificateFileName, "jwt")}`, badge.jwt)
+  }
+
+  const getRenderScale = () => (quality === "high" ? 300 : 72) / 72
+
+  const getCertificateFileName = (row: Record<string, string>, number: string) =>
+    `${row.ID || number}_${row.FirstName}_${row.LastName}.${outputFormat}`
+
+  const renderCertificate = async (
+    row: Record<string, string>,
+    scale: number,
+    templateSize: { width: number; height: number },
+    onReplacedCharacters?: (characters: string[]) => void,
+  ): Promise<Blob> => {
+    if (outputFormat === "pdf") {
+      // Vector path: template as background, fields as real text (DPI does not apply)
+      return await createVectorCertificatePdf(
+        templateImage,
+        templateSize.width,
+        templateSize.height,
+        fields.map((field) => ({ field, text: getFieldText(field, row) })),
+        onReplacedCharacters,
+      )
+    }
+
+    const canvas = await createCertificateCanvas(row, scale)
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob)
+        else reject(new Error("Failed to create blob"))
+      }, "image/png")
+    })
+  }
+
+  const getCourseName = (row: Record<string, string>) =>
+    getPresetFieldText("Course", row) || getPresetFieldText("Event", row) || courseName.trim()
+
+  const createBadge = (row: Record<string, string>, certificateId: string | null, issuedAt: string): BadgeToIssue => {
+    const email = getRecipientEmail(row)
+    return {
+      holderName: getPresetFieldText("Name", row) || getRecipientName(row),
+      achievementName: getCourseName(row),
+      issuedAt,
+      ...(email && { email }),
+      ...(certificateId && { certificateId }),
+    }
+  }
+
+  const createRegistration = (
+    row: Record<string, string>,
+    certificateId: string,
+    contentHash: string,
+    issuedAt: string,
+  ): CertificateRecord => ({
+    id: certificateId,
+    holderName: getPresetFieldText("Name", row) || getRecipientName(row),
+    course: getCourseName(row),
+    issueDate: getPresetFieldText("Date", row),
+    issuedAt,
+    contentHash,
+    format: outputFormat,
+  })
+
+  const getTemplateSize = (): Promise<{ width: number; height: number }> => {
+    return new Promise((resolve, reject) => {
+      const img = new Image()
+      img.onload = () => resolve({ width: img.width, height: img.height })
+      img.onerror = () => reject(new Error("Failed to load template image"))
+      img.src = templateImage
+    })
+  }
+
+  const drawField = (ctx: CanvasRenderingContext2D, field: CertificateField, data: Record<string, string>) => {
+    const text = getFieldText(field, data)
+    if (!text) return
+
+    if (isQrField(field)) drawFieldQr(ctx, field, text)
+    else drawFieldText(ctx, field, text)
+  }
+
+  useEffect(() => {
+    if (!previewCanvasRef.current || csvData.length === 0) return
+
+    const canvas = previewCanvasRef.current
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => {
+      canvas.width = img.width
+      canvas.height = img.height
+      ctx.drawImage(img, 0, 0)
+
+      const row = registerCertificates && canRegister ? withCertificateId(csvData[0], PREVIEW_CERTIFICATE_ID) : csvData[0]
+
+      fields.forEach((field) => drawField(ctx, field, row))
+    }
+    img.src = templateImage
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- drawField and withCertificateId are new functions on every render; what they read is listed
+  }, [csvData, fieldMapping, fields, templateImage, registerCertificates, canRegister])
+
   const createCertificateCanvas = (data: Record<string, string>, scale: number): Promise<HTMLCanvasElement> => {
     return new Promise((resolve) => {
       const img = new Image()
@@ -425,31 +603,7 @@ export default function CertificateGeneration({
         ctx.scale(scale, scale)
         ctx.drawImage(img, 0, 0)
 
-        fields.forEach((field) => {
-          const csvColumn = fieldMapping[field.id]
-          let text = ""
-
-          if (csvColumn) {
-            if (csvColumn.includes("|")) {
-              const [firstCol, lastCol] = csvColumn.split("|")
-              text = `${data[firstCol] || ""} ${data[lastCol] || ""}`.trim()
-            } else {
-              text = data[csvColumn] || ""
-            }
-          }
-
-          if (!text) return
-
-          const fontString = `${field.fontWeight} ${field.fontSize}px "${field.fontFamily}", serif`
-
-          ctx.font = fontString
-          ctx.fillStyle = field.color
-          ctx.textAlign = field.alignment
-
-          const x =
-            field.alignment === "center" ? field.x : field.alignment === "right" ? field.x + (field.maxWidth || 0) : field.x
-          ctx.fillText(text, x, field.y, field.maxWidth)
-        })
+        fields.forEach((field) => drawField(ctx, field, data))
 
         resolve(canvas)
       }
@@ -458,6 +612,20 @@ export default function CertificateGeneration({
   }
 
   const previewCertificates = csvData.slice(0, 3)
+  // Without one, the course for verification is typed in once for the whole run
+  const hasCourseField = fields.some((field) => ["Course", "Event"].includes(getPresetLabel(field.name) || ""))
+  // QR codes are filled in from the row, so only text fields take a column
+  const textFields = fields.filter((field) => !isQrField(field))
+  // Columns that end up on a certificate or address it, offered for correction when reissuing
+  const reissueColumns = [
+    ...new Set([
+      ...textFields.flatMap((field) => (fieldMapping[field.id] || "").split("|")).filter(Boolean),
+      ...csvHeaders.filter((header) => header.toLowerCase() === "email"),
+    ]),
+  ]
+  const qrNeedsCertificateId = fields.some(
+    (field) => isQrField(field) && /\{\{\s*(CertificateID|VerificationURL)\s*\}\}/i.test(field.qrPattern ?? DEFAULT_QR_PATTERN),
+  )
 
   return (
     <div className="p-8">
@@ -469,7 +637,7 @@ export default function CertificateGeneration({
           <Card className="p-6 border-2 border-dashed border-gray-300 hover:border-[#21808D] transition-colors">
             <div className="text-center">
               <Upload className="w-12 h-12 text-[#21808D] mx-auto mb-4" />
-              <h3 className="font-semibold text-[#1a1a1a] mb-2">Upload CSV File</h3>
+              <h3 className="font-semibold text-[#1a1a1a] mb-2">Upload CSV or Spreadsheet</h3>
               <p className="text-gray-600 text-sm mb-4">
                 CSV should have: <strong>Email, FirstName, LastName</strong> + your certificate fields
               </p>
@@ -479,16 +647,99 @@ export default function CertificateGeneration({
                 <code className="text-blue-700 block">student@klh.edu.in,123,John,Doe</code>
                 <p className="text-blue-600 mt-2">💡 Email column is required for sending certificates</p>
               </div>
-              <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleCsvUpload} className="hidden" />
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={[".csv", ".tsv", ".txt", ...SPREADSHEET_EXTENSIONS].join(",")}
+                onChange={handleCsvUpload}
+                className="hidden"
+              />
               <Button
                 onClick={() => fileInputRef.current?.click()}
                 className="bg-[#21808D] hover:bg-[#1a6570] text-white"
               >
-                Select CSV File
+                Select CSV / Excel File
               </Button>
+              <p className="text-xs text-gray-500 mt-2">Excel (.xlsx, .xls) and OpenDocument (.ods) files are supported</p>
             </div>
           </Card>
 
+          {spreadsheet && (
+            <Card className="p-6 bg-blue-50 border-blue-200">
+              <h3 className="font-semibold text-[#1a1a1a] mb-4">Import from {spreadsheet.fileName}</h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Sheet</label>
+                  <select
+                    value={selectedSheet}
+                    onChange={(e) => selectSheet(spreadsheet.workbook, e.target.value)}
+                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {spreadsheet.workbook.SheetNames.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Header Row</label>
+                  <select
+                    value={headerRowIndex}
+                    onChange={(e) => setHeaderRowIndex(Number.parseInt(e.target.value))}
+                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {sheetGrid.slice(0, 20).map((row, index) => (
+                      <option key={index} value={index}>
+                        Row {index + 1}: {row.filter((cell) => String(cell).trim()).slice(0, 5).join(", ") || "(blank)"}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {gridToTable(sheetGrid, headerRowIndex).rows.length} data rows below the header
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setSpreadsheet(null)} className="flex-1 bg-transparent">
+                    Cancel
+                  </Button>
+                  <Button onClick={importSelectedSheet} className="flex-1 bg-[#21808D] hover:bg-[#1a6570] text-white">
+                    Import Sheet
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {csvErrors.length > 0 && (
+            <Card className="p-4 bg-amber-50 border-amber-200">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5" />
+                <div className="flex-1">
+                  <p className="font-semibold text-amber-900">
+                    {csvErrors.length} malformed line{csvErrors.length === 1 ? "" : "s"} skipped
+                  </p>
+                  <p className="text-sm text-amber-700 mt-1">
+                    Lines {csvErrors.slice(0, 10).map((err) => err.line).join(", ")}
+                    {csvErrors.length > 10 && ` and ${csvErrors.length - 10} more`}. Fix them and re-upload to include those recipients.
+                  </p>
+                  <details className="mt-2">
+                    <summary className="text-xs text-amber-700 cursor-pointer">Show details</summary>
+                    <ul className="mt-2 text-xs text-amber-700 space-y-1 list-disc list-inside">
+                      {csvErrors.map((err, idx) => (
+                        <li key={idx}>
+                          <strong>Line {err.line}:</strong> {err.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                </div>
+              </div>
+            </Card>
+          )}
+
           {csvData.length > 0 && (
             <>
               <Card className="p-6 bg-gray-50">
@@ -501,7 +752,7 @@ export default function CertificateGeneration({
               <Card className="p-6 bg-blue-50 border-blue-200">
                 <h3 className="font-semibold text-[#1a1a1a] mb-4">Map CSV Columns to Fields</h3>
                 <div className="space-y-3">
-                  {fields.map((field) => (
+                  {textFields.map((field) => (
                     <div key={field.id} className="flex items-center gap-3">
                       <label className="text-sm font-medium text-gray-700 min-w-24">{field.name}:</label>
                       <select
@@ -533,7 +784,7 @@ export default function CertificateGeneration({
                     <Card key={index} className="p-4 bg-gray-50">
                       <p className="text-sm font-medium text-gray-700 mb-2">Certificate {index + 1}</p>
                       <div className="space-y-1 text-sm">
-                        {fields.map((field) => {
+                        {textFields.map((field) => {
                           const csvColumn = fieldMapping[field.id]
                           let value = "-"
                           if (csvColumn) {
@@ -565,7 +816,7 @@ export default function CertificateGeneration({
                     <label className="text-sm font-medium text-gray-700">Output Format</label>
                     <select
                       value={outputFormat}
-                      onChange={(e) => setOutputFormat(e.target.value as "png" | "pdf")}
+                      onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
                       className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
                     >
                       <option value="png">PNG</option>
@@ -583,69 +834,88 @@ export default function CertificateGeneration({
                       <option value="standard">Standard (72 DPI)</option>
                       <option value="high">High (300 DPI)</option>
                     </select>
+                    {outputFormat === "pdf" && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        PDFs use vector text with embedded fonts, so they stay sharp at any zoom level
+                      </p>
+                    )}
                   </div>
 
                   <div className="pt-4 border-t border-[#21808D]/20">
-                    <label className="text-sm font-medium text-gray-700 mb-2 block">Email Provider</label>
-                    <select
-                      value={emailProvider}
-                      onChange={(e) => setEmailProvider(e.target.value as "resend" | "gmail")}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                    >
-                      <option value="resend">Resend (Requires Domain)</option>
-                      <option value="gmail">Gmail/Educational SMTP</option>
-                    </select>
-                    <div className="mt-2 space-y-2">
-                      {emailProvider === "resend" ? (
-                        <p className="text-xs text-gray-500">
-                          Use onboarding@resend.dev for testing (limited to verified email)
-                        </p>
-                      ) : (
-                        <div className="space-y-1">
-                          {isAuthenticated ? (
-                            <div className="flex items-center space-x-2 text-xs">
-                              <CheckCircle className="w-3 h-3 text-green-500" />
-                              <span className="text-green-700">
-                                Connected as: {authenticatedEmail}
-                              </span>
-                            </div>
-                          ) : (
-                            <div className="flex items-center space-x-2 text-xs">
-                              <AlertCircle className="w-3 h-3 text-orange-500" />
-                              <span className="text-orange-700">
-                                Email credentials required (will prompt when sending)
-                              </span>
-                            </div>
-                          )}
-                          <p className="text-xs text-gray-500">
-                            Secure credential input • Session-only storage • AES-256 encrypted
-                          </p>
-                        </div>
-                      )}
-                    </div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={registerCertificates && canRegister}
+                        disabled={!canRegister}
+                        onChange={(e) => setRegisterCertificates(e.target.checked)}
+                      />
+                      <ShieldCheck className="w-4 h-4 text-[#21808D]" />
+                      Register for verification
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Each certificate gets an ID that anyone can check at /verify. Use {"{{CertificateID}}"} and{" "}
+                      {"{{VerificationURL}}"} in the email to share it.
+                    </p>
+                    {!canRegister && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        Available when the app is opened over HTTPS or on localhost.
+                      </p>
+                    )}
+                    {qrNeedsCertificateId && !(registerCertificates && canRegister) && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        QR codes that link to the verification page are left off while registration is off.
+                      </p>
+                    )}
+                    {((registerCertificates && canRegister) || exportBadges) && !hasCourseField && (
+                      <input
+                        value={courseName}
+                        onChange={(e) => setCourseName(e.target.value)}
+                        placeholder="Course or event name shown when verifying"
+                        className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    )}
                   </div>
 
-                  {emailProvider === "gmail" && (
+                  {canRegister && (
                     <div className="pt-4 border-t border-[#21808D]/20">
-                      <label className="text-sm font-medium text-gray-700 mb-2 block">Sending Mode</label>
-                      <select
-                        value={sendingMode}
-                        onChange={(e) => setSendingMode(e.target.value as "auto" | "sequential" | "pooled")}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                      >
-                        <option value="auto">Auto ({generatedCertificates.length >= 50 ? "Pooled" : "Sequential"})</option>
-                        <option value="sequential">Sequential (Safer, Slower)</option>
-                        <option value="pooled">Pooled (Faster, For Bulk)</option>
-                      </select>
-                      <p className="text-xs text-gray-500 mt-2">
-                        {sendingMode === "sequential" 
-                          ? "Sends emails one by one with 500ms delay (recommended for <50 recipients)"
-                          : sendingMode === "pooled"
-                          ? "Uses connection pooling to send emails in parallel (recommended for 50+ recipients)"
-                          : `Auto-selects mode based on recipient count (currently ${generatedCertificates.length} recipients)`}
+                      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={signCertificates}
+                          onChange={(e) => setSignCertificates(e.target.checked)}
+                        />
+                        <FileSignature className="w-4 h-4 text-[#21808D]" />
+                        Sign certificates
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Adds {SIGNATURE_MANIFEST_FILE} to the ZIP with the issuer&apos;s signature for each file, checkable
+                        at /verify/signature. Share it along with the certificates.
                       </p>
                     </div>
                   )}
+
+                  <div className="pt-4 border-t border-[#21808D]/20">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                      <input type="checkbox" checked={exportBadges} onChange={(e) => setExportBadges(e.target.checked)} />
+                      <Award className="w-4 h-4 text-[#21808D]" />
+                      Export Open Badges
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Adds a signed Open Badges 3.0 credential for each recipient to the ZIP, under badges/, for
+                      importing into wallets and LMSs. They can also be attached to the emails.
+                    </p>
+                  </div>
+
+                  {(((registerCertificates || signCertificates) && canRegister) || exportBadges) && (
+                    <input
+                      type="password"
+                      value={registryAdminKey}
+                      onChange={(e) => setRegistryAdminKey(e.target.value)}
+                      placeholder="REGISTRY_ADMIN_KEY"
+                      autoComplete="off"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  )}
                 </div>
               </Card>
 
@@ -658,66 +928,28 @@ export default function CertificateGeneration({
                       <p className="text-sm text-green-700">
                         {generatedCount} certificates generated and downloaded as ZIP file.
                       </p>
-                    </div>
-                  </div>
-                </Card>
-              )}
-
-              {emailStatus === "success" && (
-                <Card className="p-4 bg-green-50 border-green-200">
-                  <div className="flex items-center gap-3">
-                    <CheckCircle className="w-5 h-5 text-green-600" />
-                    <div>
-                      <p className="font-semibold text-green-900">Emails Sent Successfully!</p>
-                      <p className="text-sm text-green-700">
-                        {emailsSent} certificate(s) sent via email.
-                        {emailErrors.length > 0 && ` (${emailErrors.length} failed)`}
-                      </p>
-                    </div>
-                  </div>
-                </Card>
-              )}
-
-              {emailStatus === "error" && (
-                <Card className="p-4 bg-red-50 border-red-200">
-                  <div className="flex items-start gap-3">
-                    <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
-                    <div className="flex-1">
-                      <p className="font-semibold text-red-900">Email Sending Failed</p>
-                      <p className="text-sm text-red-700 mt-1">
-                        {emailErrors[0]?.error || "Failed to send emails. Please try again."}
-                      </p>
-                      {emailErrors.length > 1 && (
-                        <details className="mt-2">
-                          <summary className="text-xs text-red-600 cursor-pointer">
-                            Show all errors ({emailErrors.length})
-                          </summary>
-                          <ul className="mt-2 text-xs text-red-600 space-y-1 list-disc list-inside">
-                            {emailErrors.map((err, idx) => (
-                              <li key={idx}>
-                                <strong>{err.email}:</strong> {err.error}
-                              </li>
-                            ))}
-                          </ul>
-                        </details>
+                      {registeredCount > 0 && (
+                        <p className="text-xs text-green-700 mt-1">
+                          {registeredCount} registered for verification at /verify.
+                        </p>
+                      )}
+                      {replacedCharacters.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          The PDF font could not draw {replacedCharacters.join(" ")}, so these were replaced by the
+                          plain letter or &quot;?&quot;. Pick a font that covers them and generate again.
+                        </p>
                       )}
                     </div>
                   </div>
                 </Card>
               )}
 
-              {emailStatus === "sending" && (
-                <Card className="p-4 bg-blue-50 border-blue-200">
-                  <div className="flex items-center gap-3">
-                    <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
-                    <div>
-                      <p className="font-semibold text-blue-900">Sending Emails...</p>
-                      <p className="text-sm text-blue-700">
-                        {emailsSent} / {csvData.length} emails sent
-                      </p>
-                    </div>
-                  </div>
-                </Card>
+              {canRegister && generatedCertificates.length > 0 && (
+                <ReissueCertificates
+                  certificates={generatedCertificates}
+                  columns={reissueColumns}
+                  onReissue={reissueCertificates}
+                />
               )}
 
               {generationStatus === "error" && (
@@ -758,16 +990,16 @@ export default function CertificateGeneration({
                 <p className="text-gray-600">Quality</p>
                 <p className="text-lg font-semibold text-[#1a1a1a]">{quality === "high" ? "300 DPI" : "72 DPI"}</p>
               </div>
-              <div className="pt-2 border-t border-[#21808D]/20">
-                <p className="text-gray-600 text-xs">Email Provider</p>
-                <p className="text-sm font-semibold text-[#1a1a1a]">
-                  {emailProvider === "resend" ? "Resend" : "Gmail SMTP"}
-                </p>
-              </div>
               {generatedCertificates.length > 0 && (
                 <div className="pt-2 border-t border-[#21808D]/20">
                   <p className="text-gray-600 text-xs">Generated & Ready to Email</p>
                   <p className="text-lg font-semibold text-green-600">{generatedCertificates.length} certificates</p>
+                  {generatedCertificates.some((certificate) => !certificate.email) && (
+                    <p className="text-xs text-gray-500">
+                      {generatedCertificates.filter((certificate) => !certificate.email).length} without an email
+                      address will not be sent
+                    </p>
+                  )}
                 </div>
               )}
               {isGenerating && (
@@ -805,38 +1037,14 @@ export default function CertificateGeneration({
           )}
         </Button>
         <Button
-          onClick={sendEmailsOnly}
-          disabled={generatedCertificates.length === 0 || isSendingMail || emailStatus === "sending"}
+          onClick={onNext}
+          disabled={generatedCertificates.length === 0 || isGenerating}
           className="flex-1 bg-[#FF6B35] hover:bg-[#E55A2B] text-white disabled:opacity-50"
         >
-          {isSendingMail ? (
-            <>
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              Sending... ({emailsSent}/{generatedCertificates.length})
-            </>
-          ) : (
-            <>
-              <Mail className="w-4 h-4 mr-2" />
-              Send Emails
-            </>
-          )}
+          <Mail className="w-4 h-4 mr-2" />
+          Next: Email Certificates
         </Button>
       </div>
-
-      {/* DevNav for secure credential input */}
-      <DevNav
-        isOpen={showDevNav}
-        onClose={() => setShowDevNav(false)}
-        onSuccess={() => {
-          console.log('[DevNav] Credentials authenticated successfully')
-          // Force re-check credentials to update state
-          checkCredentials().then(() => {
-            console.log(`[DevNav] After checkCredentials - isAuthenticated: ${isAuthenticated}`)
-            // Auto-proceed with email sending after successful authentication
-            sendEmailsOnly()
-          })
-        }}
-      />
     </div>
   )
 }
@@ -0,0 +1,789 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Loader2, CheckCircle, AlertCircle, Mail, RotateCw, FileSearch, Send, CalendarClock, XCircle } from "lucide-react"
+import type {
+  DryRunReport as DryRunReportData,
+  EmailCredentials,
+  EmailProvider,
+  EmailTemplate,
+  SendJobEvent,
+  SendJobSummary,
+  TestSendResult,
+} from "@/types/certificate"
+import type { StoredCertificate } from "@/utils/storage"
+import { blobToBase64, loadSession, saveSession } from "@/utils/storage"
+import { useCredentials } from "@/hooks/useCredentials"
+import DevNav from "@/components/DevNav"
+import EmailTemplateEditor from "@/components/email-template-editor"
+import SendProgress from "@/components/send-progress"
+import FailedRecipients from "@/components/failed-recipients"
+import DryRunReport from "@/components/dry-run-report"
+import SchedulePicker, { getBrowserTimeZone, type ScheduleValue } from "@/components/schedule-picker"
+import { formatInTimeZone, utcToZonedTime } from "@/lib/schedule"
+import { getRecipientEmail, getRecipientName } from "@/lib/email-template"
+
+interface EmailSendingProps {
+  certificates: StoredCertificate[]
+  csvData: Array<Record<string, string>>
+  emailTemplate: EmailTemplate
+  onTemplateChange: (template: EmailTemplate) => void
+  onBack: () => void
+}
+
+export default function EmailSending({
+  certificates,
+  csvData,
+  emailTemplate,
+  onTemplateChange,
+  onBack,
+}: EmailSendingProps) {
+  // The send job runs on the server; this component only starts, polls and resumes it
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [job, setJob] = useState<SendJobSummary | null>(null)
+  const [requestError, setRequestError] = useState<string | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  // Dry run and test send, to check a campaign before it goes out
+  const [isChecking, setIsChecking] = useState(false)
+  const [dryRunReport, setDryRunReport] = useState<DryRunReportData | null>(null)
+  const [testCount, setTestCount] = useState(1)
+  // Only asked for with Resend; Gmail and SMTP tests go to the logged-in sender
+  const [testAddress, setTestAddress] = useState("")
+  const [testResult, setTestResult] = useState<TestSendResult[] | null>(null)
+  // Send later: the scheduler on the server starts the job at this time
+  const [scheduleEnabled, setScheduleEnabled] = useState(false)
+  // Attach each recipient's Open Badge, when the generation step exported them
+  const [attachBadges, setAttachBadges] = useState(true)
+  const [schedule, setSchedule] = useState<ScheduleValue>(() => {
+    const timeZone = getBrowserTimeZone()
+    // Default to the next full hour
+    const nextHour = new Date(Math.ceil((Date.now() + 60 * 1000) / 3600000) * 3600000)
+    return { localTime: utcToZonedTime(nextHour, timeZone), timeZone }
+  })
+  const [reschedule, setReschedule] = useState<ScheduleValue | null>(null)
+  // Bumped to reconnect to the progress stream after a resume
+  const [streamRequest, setStreamRequest] = useState(0)
+  const [emailProvider, setEmailProvider] = useState<EmailProvider>("resend")
+  const [sendingMode, setSendingMode] = useState<"auto" | "sequential" | "pooled">("auto")
+  const [showDevNav, setShowDevNav] = useState(false)
+  // The provider DevNav asks credentials for: a resumed job's own, which may not be the one selected
+  const [devNavProvider, setDevNavProvider] = useState<EmailProvider>("gmail")
+  // What to do once DevNav has collected credentials
+  const afterLogin = useRef<() => void>(() => {})
+  // Idempotency key of the send being requested. Kept until the server answers, so
+  // sending again after a lost response gets the same job back instead of a second one
+  const sendKey = useRef<string | null>(null)
+
+  // Use credentials hook
+  const credentialsData = useCredentials()
+  const { isAuthenticated, email: authenticatedEmail, smtp: authenticatedServer, checkCredentials } = credentialsData
+  const needsCredentials = emailProvider !== "resend"
+  // Stored credentials only count for the provider they were entered for
+  const isConnected = isAuthenticated && (emailProvider === "smtp") === !!authenticatedServer
+
+  // Debug logging
+  useEffect(() => {
+    console.log('[EmailSending] useCredentials state changed:', credentialsData)
+  }, [credentialsData])
+
+  // Preview against the certificates that will be sent; before generation, against the raw rows
+  const previewRecipients =
+    certificates.length > 0
+      ? certificates
+      : csvData.map((row) => ({ email: getRecipientEmail(row), name: getRecipientName(row), fileName: "", data: row }))
+  const columns = Object.keys(previewRecipients[0]?.data || csvData[0] || {})
+
+  const hasBadges = certificates.some((certificate) => certificate.badge)
+  const isSendingMail = isStarting || job?.status === "running"
+  const emailsSent = job?.counts.sent ?? 0
+  const processed = job ? job.recipients.length - job.counts.queued : 0
+  // "No valid email address", "Already sent", "Already being sent by another job": each reported with its own count
+  const skippedReasons = Object.entries(
+    (job?.recipients ?? [])
+      .filter((recipient) => recipient.status === "skipped")
+      .reduce<Record<string, number>>((counts, recipient) => {
+        const reason = recipient.error || "Skipped"
+        counts[reason] = (counts[reason] || 0) + 1
+        return counts
+      }, {})
+  )
+
+  // A changed send is a new request
+  useEffect(() => {
+    sendKey.current = null
+  }, [certificates, emailTemplate, emailProvider, sendingMode, scheduleEnabled, schedule, attachBadges])
+
+  // Pick up the last job after a reload
+  useEffect(() => {
+    loadSession(["sendJobId"]).then((session) => {
+      if (session.sendJobId) setJobId(session.sendJobId)
+    })
+  }, [])
+
+  // Follow the job over Server-Sent Events; the stream starts with a snapshot and ends once the job stops
+  useEffect(() => {
+    if (!jobId) return
+    const source = new EventSource(`/api/send-jobs/${jobId}/events`)
+
+    source.addEventListener("snapshot", (message) => {
+      const event: SendJobEvent = JSON.parse((message as MessageEvent).data)
+      if (event.type !== "snapshot") return
+      setJob(event.job)
+      if (event.job.status !== "running" && event.job.status !== "scheduled") source.close()
+    })
+
+    source.addEventListener("recipient", (message) => {
+      const event: SendJobEvent = JSON.parse((message as MessageEvent).data)
+      if (event.type !== "recipient") return
+      setJob((prev) =>
+        prev && {
+          ...prev,
+          counts: event.counts,
+          recipients: prev.recipients.map((recipient, index) => (index === event.index ? event.recipient : recipient)),
+        }
+      )
+    })
+
+    source.onerror = async () => {
+      // EventSource retries dropped connections by itself; it only gives up when the request is rejected
+      if (source.readyState !== EventSource.CLOSED) return
+      const response = await fetch(`/api/send-jobs/${jobId}`).catch(() => null)
+      if (response?.status === 404) {
+        // Job data was removed on the server; forget it
+        setJobId(null)
+        setJob(null)
+        saveSession({ sendJobId: null })
+      }
+    }
+
+    return () => source.close()
+  }, [jobId, streamRequest])
+
+  // Stored credentials for the provider, or null after opening DevNav to ask for them
+  const getCredentials = async (provider: EmailProvider, onReady: () => void): Promise<EmailCredentials | null> => {
+    const { decryptCredentials } = await import('@/utils/secure-storage')
+    const credentials = await decryptCredentials()
+
+    if (!credentials || (provider === "smtp") !== !!credentials.smtp) {
+      console.log('[sendEmails] No credentials for', provider, '- showing DevNav')
+      afterLogin.current = onReady
+      setDevNavProvider(provider)
+      setShowDevNav(true)
+      return null
+    }
+
+    return { email: credentials.email, appPassword: credentials.appPassword, smtp: credentials.smtp }
+  }
+
+  // Convert blobs to base64 before sending
+  const encodeRecipients = (list: StoredCertificate[]) =>
+    Promise.all(
+      list.map(async (recipient) => ({
+        email: recipient.email,
+        name: recipient.name,
+        certificateBase64: await blobToBase64(recipient.certificateBlob),
+        fileName: recipient.fileName,
+        data: recipient.data,
+        badge: attachBadges ? recipient.badge : undefined,
+      }))
+    )
+
+  // Render every email on the server without sending anything
+  const runDryRun = async () => {
+    setIsChecking(true)
+    setRequestError(null)
+    setTestResult(null)
+
+    try {
+      const response = await fetch("/api/send-certificates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dryRun: true,
+          recipients: await encodeRecipients(certificates),
+          provider: emailProvider,
+          template: emailTemplate,
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setDryRunReport(result.report)
+      } else {
+        setRequestError(result.error || "Unknown error")
+      }
+    } catch (error) {
+      console.error("[Client] Error running dry run:", error)
+      setRequestError("Dry run failed. Please try again.")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  // Deliver the first few emails to the sender's own inbox
+  const sendTest = async () => {
+    setIsChecking(true)
+    setRequestError(null)
+    setDryRunReport(null)
+
+    try {
+      const credentials = needsCredentials ? await getCredentials(emailProvider, sendTest) : null
+      if (needsCredentials && !credentials) return
+
+      const response = await fetch("/api/send-certificates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          testSend: { count: testCount, to: testAddress },
+          recipients: await encodeRecipients(certificates.slice(0, testCount)),
+          provider: emailProvider,
+          template: emailTemplate,
+          credentials,
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setTestResult(result.results)
+      } else {
+        setRequestError(result.error || "Unknown error")
+      }
+    } catch (error) {
+      console.error("[Client] Error sending test emails:", error)
+      setRequestError("Test send failed. Please try again.")
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const sendEmails = async () => {
+    console.log(`[sendEmails] Starting - isAuthenticated: ${isAuthenticated}, emailProvider: ${emailProvider}`)
+
+    if (certificates.length === 0) {
+      alert("Please generate certificates first")
+      return
+    }
+
+    setIsStarting(true)
+    setRequestError(null)
+
+    try {
+      // Pass credentials to server for Gmail and SMTP
+      const credentials = needsCredentials ? await getCredentials(emailProvider, sendEmails) : null
+      if (needsCredentials && !credentials) return
+
+      // randomUUID is missing outside secure contexts, e.g. the app opened over plain HTTP on a LAN
+      sendKey.current ??= crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+      const response = await fetch("/api/send-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": sendKey.current },
+        body: JSON.stringify({
+          recipients: await encodeRecipients(certificates),
+          provider: emailProvider,
+          sendingMode: sendingMode === "auto" ? undefined : sendingMode,
+          template: emailTemplate,
+          credentials,
+          schedule: scheduleEnabled ? schedule : undefined,
+        }),
+      })
+
+      const result = await response.json()
+
+      console.log("[Client] Send job response:", result)
+
+      if (result.success) {
+        sendKey.current = null
+        setJob(null)
+        setJobId(result.jobId)
+        // A duplicate request may return the job already shown; reconnect so it is loaded again
+        setStreamRequest((count) => count + 1)
+        saveSession({ sendJobId: result.jobId })
+      } else {
+        setRequestError(result.error || "Unknown error")
+        console.error("[Client] API error:", result)
+      }
+    } catch (error) {
+      console.error("[Client] Error sending emails:", error)
+      setRequestError("Failed to send emails. Please try again.")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  /**
+   * Run the current job again: "resume" sends whoever is still queued after an
+   * interruption, "retry" re-sends only failed recipients (with any corrected
+   * addresses). Recipients already sent are never emailed again.
+   */
+  const continueJob = async (action: "resume" | "retry", emails?: Record<number, string>) => {
+    if (!job) return
+
+    setIsStarting(true)
+    setRequestError(null)
+
+    try {
+      const credentials =
+        job.provider !== "resend" ? await getCredentials(job.provider, () => continueJob(action, emails)) : null
+      if (job.provider !== "resend" && !credentials) return
+
+      const response = await fetch(`/api/send-jobs/${job.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ credentials, emails }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setJob((prev) => (prev ? { ...prev, status: "running", error: undefined } : prev))
+        setStreamRequest((count) => count + 1)
+      } else {
+        setRequestError(result.error || "Unknown error")
+      }
+    } catch (error) {
+      console.error(`[Client] Error (${action}) send job:`, error)
+      setRequestError("Failed to restart sending. Please try again.")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  // Move a scheduled (or cancelled) job to a new time
+  const rescheduleJob = async (value: ScheduleValue) => {
+    if (!job) return
+
+    setIsStarting(true)
+    setRequestError(null)
+
+    try {
+      const credentials =
+        job.provider !== "resend" ? await getCredentials(job.provider, () => rescheduleJob(value)) : null
+      if (job.provider !== "resend" && !credentials) return
+
+      const response = await fetch(`/api/send-jobs/${job.id}/schedule`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...value, credentials }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setJob(result.job)
+        setReschedule(null)
+        setStreamRequest((count) => count + 1)
+      } else {
+        setRequestError(result.error || "Unknown error")
+      }
+    } catch (error) {
+      console.error("[Client] Error rescheduling send job:", error)
+      setRequestError("Failed to reschedule. Please try again.")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const cancelJob = async () => {
+    if (!job || !confirm("Cancel this scheduled send? You can reschedule it later.")) return
+
+    try {
+      const response = await fetch(`/api/send-jobs/${job.id}/cancel`, { method: "POST" })
+      const result = await response.json()
+      if (result.success) {
+        setJob(result.job)
+      } else {
+        setRequestError(result.error || "Unknown error")
+      }
+    } catch (error) {
+      console.error("[Client] Error cancelling send job:", error)
+      setRequestError("Failed to cancel. Please try again.")
+    }
+  }
+
+  const startRescheduling = () => {
+    if (!job) return
+    const timeZone = job.timeZone || schedule.timeZone
+    setReschedule(
+      job.scheduledAt ? { localTime: utcToZonedTime(new Date(job.scheduledAt), timeZone), timeZone } : { ...schedule }
+    )
+  }
+
+  return (
+    <div className="p-8">
+      <h2 className="text-2xl font-bold text-[#1a1a1a] mb-6">Step 4: Email Certificates</h2>
+
+      <div className="space-y-6">
+        <EmailTemplateEditor
+          template={emailTemplate}
+          onChange={onTemplateChange}
+          recipients={previewRecipients}
+          columns={columns}
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            <Card className="p-6 bg-[#21808D]/5 border-[#21808D]">
+              <h3 className="font-semibold text-[#1a1a1a] mb-4">Delivery Options</h3>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-2 block">Email Provider</label>
+                  <select
+                    value={emailProvider}
+                    onChange={(e) => setEmailProvider(e.target.value as EmailProvider)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="resend">Resend (Requires Domain)</option>
+                    <option value="gmail">Gmail/Educational SMTP</option>
+                    <option value="smtp">Other SMTP Server (Office 365, Zoho, Relay)</option>
+                  </select>
+                  <div className="mt-2 space-y-2">
+                    {emailProvider === "resend" ? (
+                      <p className="text-xs text-gray-500">
+                        Use onboarding@resend.dev for testing (limited to verified email)
+                      </p>
+                    ) : (
+                      <div className="space-y-1">
+                        {isConnected ? (
+                          <div className="flex items-center space-x-2 text-xs">
+                            <CheckCircle className="w-3 h-3 text-green-500" />
+                            <span className="text-green-700">
+                              Connected as: {authenticatedEmail}
+                              {authenticatedServer && ` via ${authenticatedServer.host}:${authenticatedServer.port}`}
+                            </span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center space-x-2 text-xs">
+                            <AlertCircle className="w-3 h-3 text-orange-500" />
+                            <span className="text-orange-700">
+                              Email credentials required (will prompt when sending)
+                            </span>
+                          </div>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Secure credential input • Session-only storage • AES-256 encrypted
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {needsCredentials && (
+                  <div className="pt-4 border-t border-[#21808D]/20">
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">Sending Mode</label>
+                    <select
+                      value={sendingMode}
+                      onChange={(e) => setSendingMode(e.target.value as "auto" | "sequential" | "pooled")}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="auto">Auto ({certificates.length >= 50 ? "Pooled" : "Sequential"})</option>
+                      <option value="sequential">Sequential (Safer, Slower)</option>
+                      <option value="pooled">Pooled (Faster, For Bulk)</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {sendingMode === "sequential"
+                        ? "Sends emails one by one with 500ms delay (recommended for <50 recipients)"
+                        : sendingMode === "pooled"
+                        ? "Uses connection pooling to send emails in parallel (recommended for 50+ recipients)"
+                        : `Auto-selects mode based on recipient count (currently ${certificates.length} recipients)`}
+                    </p>
+                  </div>
+                )}
+
+                {hasBadges && (
+                  <div className="pt-4 border-t border-[#21808D]/20">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={attachBadges}
+                        onChange={(e) => setAttachBadges(e.target.checked)}
+                      />
+                      Attach Open Badges
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Adds each recipient&apos;s signed badge (JSON-LD and VC-JWT) next to their certificate, ready to import
+                      into a wallet.
+                    </p>
+                  </div>
+                )}
+
+                <div className="pt-4 border-t border-[#21808D]/20">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={scheduleEnabled}
+                      onChange={(e) => setScheduleEnabled(e.target.checked)}
+                    />
+                    Schedule for later
+                  </label>
+                  {scheduleEnabled && (
+                    <div className="mt-3 space-y-2">
+                      <SchedulePicker value={schedule} onChange={setSchedule} />
+                      <p className="text-xs text-gray-500">
+                        The server sends the emails at this time, even if this page is closed.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-6 bg-gray-50">
+              <h3 className="font-semibold text-[#1a1a1a] mb-1">Check Before Sending</h3>
+              <p className="text-xs text-gray-500 mb-4">
+                A dry run renders every email and lists problems without sending anything. A test sends the first
+                emails to {needsCredentials ? (authenticatedEmail || "your sender address") : "the address below"} instead of
+                the recipients.
+              </p>
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  onClick={runDryRun}
+                  disabled={certificates.length === 0 || isChecking || isSendingMail}
+                  variant="outline"
+                  className="bg-transparent"
+                >
+                  <FileSearch className="w-4 h-4 mr-2" />
+                  Dry Run
+                </Button>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={testCount}
+                    onChange={(e) => setTestCount(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                    className="w-16 px-2 py-2 border border-gray-300 rounded-md text-sm"
+                    aria-label="Number of test emails"
+                  />
+                  {!needsCredentials && (
+                    <input
+                      type="email"
+                      value={testAddress}
+                      onChange={(e) => setTestAddress(e.target.value)}
+                      placeholder="you@example.com"
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  )}
+                  <Button
+                    onClick={sendTest}
+                    disabled={
+                      certificates.length === 0 || isChecking || isSendingMail || (!needsCredentials && !testAddress.trim())
+                    }
+                    variant="outline"
+                    className="bg-transparent"
+                  >
+                    {isChecking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                    Send Test to Myself
+                  </Button>
+                </div>
+              </div>
+
+              {testResult && (
+                <div className="mt-4 space-y-1 text-xs">
+                  {testResult.map((result, index) => (
+                    <p key={index} className={result.success ? "text-green-700" : "text-red-700"}>
+                      {result.success ? "✓" : "✗"} Test for {result.recipient} sent to {result.to}
+                      {result.error && `: ${result.error}`}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {dryRunReport && <DryRunReport report={dryRunReport} />}
+
+            {job?.status === "completed" && (
+              <Card className="p-4 bg-green-50 border-green-200">
+                <div className="flex items-center gap-3">
+                  <CheckCircle className="w-5 h-5 text-green-600" />
+                  <div>
+                    <p className="font-semibold text-green-900">Emails Sent Successfully!</p>
+                    <p className="text-sm text-green-700">
+                      {emailsSent} certificate(s) sent via email.
+                      {job.counts.failed > 0 && ` (${job.counts.failed} failed)`}
+                      {skippedReasons.map(([reason, count]) => ` (${count} skipped: ${reason})`).join("")}
+                    </p>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {(job?.status === "scheduled" || job?.status === "cancelled") && (
+              <Card className="p-4 bg-[#21808D]/5 border-[#21808D]/40">
+                <div className="flex items-start gap-3">
+                  {job.status === "scheduled" ? (
+                    <CalendarClock className="w-5 h-5 text-[#21808D] mt-0.5" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-gray-500 mt-0.5" />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-semibold text-[#1a1a1a]">
+                      {job.status === "scheduled" ? "Emails Scheduled" : "Scheduled Send Cancelled"}
+                    </p>
+                    <p className="text-sm text-gray-700 mt-1">
+                      {job.status === "scheduled" && job.scheduledAt
+                        ? `${job.counts.queued} email(s) will be sent on ${formatInTimeZone(job.scheduledAt, job.timeZone || schedule.timeZone)}.`
+                        : `${job.counts.queued} email(s) were not sent.`}
+                    </p>
+
+                    {reschedule ? (
+                      <div className="mt-3 space-y-3">
+                        <SchedulePicker value={reschedule} onChange={setReschedule} />
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={() => rescheduleJob(reschedule)}
+                            disabled={isStarting}
+                            size="sm"
+                            className="bg-[#21808D] hover:bg-[#1a6570] text-white"
+                          >
+                            Save Schedule
+                          </Button>
+                          <Button onClick={() => setReschedule(null)} variant="outline" size="sm" className="bg-transparent">
+                            Back
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        <Button onClick={startRescheduling} variant="outline" size="sm" className="bg-transparent">
+                          <CalendarClock className="w-4 h-4 mr-2" />
+                          Reschedule
+                        </Button>
+                        <Button
+                          onClick={() => continueJob("resume")}
+                          disabled={isSendingMail}
+                          variant="outline"
+                          size="sm"
+                          className="bg-transparent"
+                        >
+                          <Send className="w-4 h-4 mr-2" />
+                          Send Now
+                        </Button>
+                        {job.status === "scheduled" && (
+                          <Button onClick={cancelJob} variant="outline" size="sm" className="bg-transparent text-red-700">
+                            <XCircle className="w-4 h-4 mr-2" />
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {job?.status === "interrupted" && (
+              <Card className="p-4 bg-orange-50 border-orange-200">
+                <div className="flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-orange-600 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="font-semibold text-orange-900">Sending Stopped</p>
+                    <p className="text-sm text-orange-700 mt-1">
+                      {emailsSent} of {job.recipients.length} sent, {job.counts.queued} still queued.
+                      {job.error ? ` ${job.error}` : " The server was interrupted before the job finished."}
+                    </p>
+                    <Button
+                      onClick={() => continueJob("resume")}
+                      disabled={isSendingMail}
+                      size="sm"
+                      className="mt-3 bg-[#21808D] hover:bg-[#1a6570] text-white"
+                    >
+                      <RotateCw className="w-4 h-4 mr-2" />
+                      Resume Sending
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {requestError && (
+              <Card className="p-4 bg-red-50 border-red-200">
+                <div className="flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="font-semibold text-red-900">Email Sending Failed</p>
+                    <p className="text-sm text-red-700 mt-1">{requestError}</p>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {job && (job.status === "completed" || job.status === "interrupted") && (
+              <FailedRecipients
+                job={job}
+                onRetry={(emails) => continueJob("retry", emails)}
+                disabled={isSendingMail}
+              />
+            )}
+
+            {job && job.status !== "scheduled" && job.status !== "cancelled" && <SendProgress job={job} />}
+          </div>
+
+          {/* Summary */}
+          <div>
+            <Card className="p-6 bg-[#21808D]/5 border-[#21808D]">
+              <h3 className="font-semibold text-[#1a1a1a] mb-4">Summary</h3>
+              <div className="space-y-3 text-sm">
+                <div>
+                  <p className="text-gray-600">Recipients</p>
+                  <p className="text-2xl font-bold text-[#21808D]">{certificates.length}</p>
+                </div>
+                <div className="pt-2 border-t border-[#21808D]/20">
+                  <p className="text-gray-600 text-xs">Email Provider</p>
+                  <p className="text-sm font-semibold text-[#1a1a1a]">
+                    {emailProvider === "resend" ? "Resend" : emailProvider === "gmail" ? "Gmail SMTP" : "SMTP Server"}
+                  </p>
+                </div>
+                {certificates.length === 0 && (
+                  <p className="text-xs text-orange-700 pt-2 border-t border-[#21808D]/20">
+                    Generate certificates in the previous step before sending.
+                  </p>
+                )}
+              </div>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-4 mt-8">
+        <Button onClick={onBack} variant="outline" className="flex-1 bg-transparent">
+          Back
+        </Button>
+        <Button
+          onClick={sendEmails}
+          disabled={certificates.length === 0 || isSendingMail}
+          className="flex-1 bg-[#FF6B35] hover:bg-[#E55A2B] text-white disabled:opacity-50"
+        >
+          {isSendingMail ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Sending... ({processed}/{job?.recipients.length ?? certificates.length})
+            </>
+          ) : (
+            <>
+              {scheduleEnabled ? <CalendarClock className="w-4 h-4 mr-2" /> : <Mail className="w-4 h-4 mr-2" />}
+              {scheduleEnabled ? "Schedule Emails" : "Send Emails"}
+            </>
+          )}
+        </Button>
+      </div>
+
+      {/* DevNav for secure credential input */}
+      <DevNav
+        isOpen={showDevNav}
+        provider={devNavProvider === "smtp" ? "smtp" : "gmail"}
+        onClose={() => setShowDevNav(false)}
+        onSuccess={() => {
+          console.log('[DevNav] Credentials authenticated successfully')
+          // Force re-check credentials to update state
+          checkCredentials().then(() => {
+            console.log(`[DevNav] After checkCredentials - isAuthenticated: ${isAuthenticated}`)
+            // Auto-proceed with sending (or resuming) after successful authentication
+            afterLogin.current()
+          })
+        }}
+      />
+    </div>
+  )
+}
@@ -5,9 +5,60 @@ import type React from "react"
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Trash2, Plus } from "lucide-react"
+import { Trash2, Plus, ZoomIn, ZoomOut, Maximize, Undo2, Redo2, QrCode } from "lucide-react"
 import { CERTIFICATE_FONTS, FONT_WEIGHTS } from "@/lib/fonts"
-import type { CertificateField } from "@/types/certificate"
+import { drawFieldText, getFieldBox, TEXT_OVERFLOW_MODES, DEFAULT_LINE_HEIGHT, DEFAULT_MIN_FONT_SIZE } from "@/lib/text-layout"
+import {
+  viewToModel,
+  zoomAt,
+  clampPan,
+  getViewScale,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  type Point,
+  type ViewTransform,
+} from "@/lib/view-transform"
+import {
+  buildQrPayload,
+  drawFieldQr,
+  isQrField,
+  DEFAULT_QR_PATTERN,
+  DEFAULT_QR_SIZE,
+  MIN_QR_SIZE,
+} from "@/lib/qr-code"
+import { getVerificationPath } from "@/lib/certificate-id"
+import type { CertificateField, CertificateFieldType, TextOverflowMode } from "@/types/certificate"
+import { useFieldHistory } from "@/hooks/useFieldHistory"
+import { FIELD_LABEL_PRESETS, getDemoText, normalizeLabel } from "@/lib/field-labels"
+
+// On-screen size of resize handles, in CSS pixels
+const HANDLE_SIZE = 8
+const MIN_FIELD_WIDTH = 20
+const ZOOM_STEP = 1.25
+const DEMO_CERTIFICATE_ID = "XXXX-XXXX-XXXX"
+
+// A sample link, so the preview shows a code of realistic density; other tags show the pattern itself
+const getDemoQrPayload = (pattern: string) =>
+  buildQrPayload(pattern, {
+    CertificateID: DEMO_CERTIFICATE_ID,
+    VerificationURL: `${window.location.origin}${getVerificationPath(DEMO_CERTIFICATE_ID)}`,
+  }) || pattern.trim()
+
+type DragState =
+  | {
+      mode: "move" | "resize-left" | "resize-right"
+      fieldId: string
+      startPoint: Point
+      startField: CertificateField
+    }
+  | {
+      mode: "pan"
+      // Pan is tracked in viewport (screen) coordinates
+      startPoint: Point
+      startView: ViewTransform
+    }
+
+type FieldHit = "resize-left" | "resize-right" | { fieldId: string }
 
 interface FieldConfigurationProps {
   templateImage: string
@@ -24,10 +75,31 @@ export default function FieldConfiguration({
   onNext,
   onBack,
 }: FieldConfigurationProps) {
-  const [isAddingField, setIsAddingField] = useState(false)
+  // The kind of field the next click on the template places
+  const [addingFieldType, setAddingFieldType] = useState<CertificateFieldType | null>(null)
   const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null)
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 })
+  const [hoverCursor, setHoverCursor] = useState<"default" | "move" | "ew-resize" | "grab" | "grabbing">("default")
+  const [view, setView] = useState<ViewTransform>({ fitScale: 1, zoom: 1, panX: 0, panY: 0 })
   const previewCanvasRef = useRef<HTMLCanvasElement>(null)
+  const canvasContainerRef = useRef<HTMLDivElement>(null)
+  const templateImgRef = useRef<HTMLImageElement | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  // Latest view for native event listeners registered once per template
+  const viewRef = useRef(view)
+
+  const isAddingField = addingFieldType !== null
+  const selectedField = fields.find((f) => f.id === selectedFieldId)
+  const { applyChange, beginTransaction, endTransaction, undo, redo, canUndo, canRedo } = useFieldHistory(
+    fields,
+    onFieldsUpdate,
+  )
+  // Template pixels per on-screen pixel, used to keep handles a constant size on screen
+  const displayScale = 1 / getViewScale(view)
+
+  useEffect(() => {
+    viewRef.current = view
+  }, [view])
 
   useEffect(() => {
     const fontFamilies = CERTIFICATE_FONTS.map((f) => f.family).join("|")
@@ -40,89 +112,331 @@ export default function FieldConfiguration({
   useEffect(() => {
     const img = new Image()
     img.onload = () => {
+      templateImgRef.current = img
       setImageSize({ width: img.width, height: img.height })
     }
     img.src = templateImage
   }, [templateImage])
 
+  // Recompute the fit-to-width scale whenever the viewport or template size changes
+  useEffect(() => {
+    const container = canvasContainerRef.current
+    if (!container || !imageSize.width) return
+
+    const updateFitScale = () => {
+      const fitScale = container.clientWidth / imageSize.width
+      setView((prev) =>
+        clampPan(
+          { ...prev, fitScale },
+          { width: container.clientWidth, height: imageSize.height * fitScale },
+          imageSize,
+        ),
+      )
+    }
+
+    updateFitScale()
+    const observer = new ResizeObserver(updateFitScale)
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [imageSize])
+
+  // Ctrl/Cmd + wheel zooms around the cursor; plain wheel pans while zoomed in.
+  // Registered natively because React wheel listeners are passive and cannot preventDefault.
+  useEffect(() => {
+    const container = canvasContainerRef.current
+    if (!container || !imageSize.width) return
+
+    const handleWheel = (e: WheelEvent) => {
+      const rect = container.getBoundingClientRect()
+      const viewport = { width: rect.width, height: rect.height }
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault()
+        const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top }
+        setView((prev) => clampPan(zoomAt(prev, anchor, prev.zoom * Math.exp(-e.deltaY / 300)), viewport, imageSize))
+        return
+      }
+
+      if (viewRef.current.zoom <= MIN_ZOOM) return
+      e.preventDefault()
+      setView((prev) =>
+        clampPan({ ...prev, panX: prev.panX - e.deltaX, panY: prev.panY - e.deltaY }, viewport, imageSize),
+      )
+    }
+
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [imageSize])
+
   useEffect(() => {
-    if (!previewCanvasRef.current || !imageSize.width) return
+    const img = templateImgRef.current
+    if (!previewCanvasRef.current || !img || !imageSize.width) return
 
     const canvas = previewCanvasRef.current
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    const img = new Image()
-    img.onload = () => {
-      canvas.width = img.width
-      canvas.height = img.height
-      ctx.drawImage(img, 0, 0)
-
-      // Draw demo text for each field
-      fields.forEach((field) => {
-        let demoText = "Demo Text"
-        if (field.name === "Name") demoText = "John Smith"
-        else if (field.name === "Date") demoText = new Date().toLocaleDateString()
-        else if (field.name === "Course") demoText = "Certificate Course"
-
-        const fontWeight = field.fontWeight === 400 ? "" : field.fontWeight
-        const fontString = fontWeight
-          ? `${fontWeight} ${field.fontSize}px "${field.fontFamily}"`
-          : `${field.fontSize}px "${field.fontFamily}"`
-
-        ctx.font = fontString
-        ctx.fillStyle = field.color
-        ctx.textAlign = field.alignment
-
-        const x =
-          field.alignment === "center" ? field.x : field.alignment === "right" ? field.x + (field.maxWidth || 0) : field.x
-        ctx.fillText(demoText, x, field.y, field.maxWidth)
-
-        // Draw field marker
-        ctx.fillStyle = "#21808D"
-        ctx.fillRect(field.x - 5, field.y - 15, 10, 10)
-      })
-    }
-    img.src = templateImage
-  }, [fields, imageSize])
+    canvas.width = img.width
+    canvas.height = img.height
+    ctx.drawImage(img, 0, 0)
+
+    const handleSize = HANDLE_SIZE * displayScale
+
+    // Draw demo text (or a sample QR code) for each field
+    fields.forEach((field) => {
+      if (isQrField(field)) {
+        const payload = getDemoQrPayload(field.qrPattern ?? DEFAULT_QR_PATTERN)
+        if (payload) drawFieldQr(ctx, field, payload)
+      } else {
+        drawFieldText(ctx, field, getDemoText(field.name))
+      }
+
+      // Draw field box, with resize handles on the selected field
+      const box = getFieldBox(field)
+      const isSelected = field.id === selectedFieldId
+      ctx.save()
+      ctx.strokeStyle = "#21808D"
+      ctx.lineWidth = (isSelected ? 2 : 1) * displayScale
+      ctx.setLineDash(isSelected ? [] : [6, 4])
+      ctx.strokeRect(box.left, box.top, box.width, box.height)
+      ctx.restore()
+
+      ctx.fillStyle = "#21808D"
+      if (isSelected) {
+        const midY = box.top + box.height / 2
+        ctx.fillRect(box.left - handleSize / 2, midY - handleSize / 2, handleSize, handleSize)
+        ctx.fillRect(box.left + box.width - handleSize / 2, midY - handleSize / 2, handleSize, handleSize)
+      }
+
+      // Draw field marker
+      ctx.fillRect(field.x - 5, field.y - 15, 10, 10)
+    })
+  }, [fields, imageSize, selectedFieldId, displayScale])
+
+  const getViewportPoint = (e: React.PointerEvent): Point => {
+    const rect = canvasContainerRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
 
-  const handleImageClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isAddingField) return
+  // Field coordinates are always template pixels, whatever the display size, zoom or pan
+  const getCanvasPoint = (e: React.PointerEvent): Point => viewToModel(getViewportPoint(e), view)
 
-    const rect = previewCanvasRef.current?.getBoundingClientRect()
-    if (!rect) return
+  const getViewportSize = () => ({
+    width: canvasContainerRef.current?.clientWidth || 0,
+    height: imageSize.height * view.fitScale,
+  })
+
+  const setZoom = (zoom: number) => {
+    const viewport = getViewportSize()
+    const center = { x: viewport.width / 2, y: viewport.height / 2 }
+    setView((prev) => clampPan(zoomAt(prev, center, zoom), viewport, imageSize))
+  }
+
+  // Find what is under the pointer: a resize handle of the selected field, or a field box
+  const hitTest = (point: Point): FieldHit | null => {
+    const tolerance = HANDLE_SIZE * displayScale
+
+    if (selectedField) {
+      const box = getFieldBox(selectedField)
+      const midY = box.top + box.height / 2
+      if (Math.abs(point.y - midY) <= tolerance) {
+        if (Math.abs(point.x - box.left) <= tolerance) return "resize-left"
+        if (Math.abs(point.x - (box.left + box.width)) <= tolerance) return "resize-right"
+      }
+    }
+
+    // Topmost (last drawn) field wins
+    for (let i = fields.length - 1; i >= 0; i--) {
+      const box = getFieldBox(fields[i])
+      if (
+        point.x >= box.left - tolerance &&
+        point.x <= box.left + box.width + tolerance &&
+        point.y >= box.top - tolerance &&
+        point.y <= box.top + box.height + tolerance
+      ) {
+        return { fieldId: fields[i].id }
+      }
+    }
+    return null
+  }
 
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+  const addFieldAt = (point: Point, type: CertificateFieldType) => {
+    // Suggest the first preset label not already on the template
+    const usedLabels = fields.map((f) => normalizeLabel(f.name))
+    const nextPreset = FIELD_LABEL_PRESETS.find((preset) => !usedLabels.includes(normalizeLabel(preset.label)))
+    const qrCount = fields.filter(isQrField).length
 
     const newField: CertificateField = {
       id: Date.now().toString(),
-      name: "Name",
-      x: Math.round(x),
-      y: Math.round(y),
+      name: nextPreset?.label || `Field ${fields.length + 1}`,
+      x: Math.round(point.x),
+      y: Math.round(point.y),
       fontSize: 32,
       fontFamily: "Montserrat",
       fontWeight: 700,
       color: "#000000",
       alignment: "center",
       maxWidth: 300,
+      // QR codes are placed centred on the click; their y is the top edge
+      ...(type === "qr" && {
+        type,
+        name: qrCount > 0 ? `QR Code ${qrCount + 1}` : "QR Code",
+        y: Math.round(point.y - DEFAULT_QR_SIZE / 2),
+        maxWidth: DEFAULT_QR_SIZE,
+        qrPattern: DEFAULT_QR_PATTERN,
+      }),
     }
 
-    onFieldsUpdate([...fields, newField])
-    setIsAddingField(false)
+    applyChange([...fields, newField])
+    setAddingFieldType(null)
     setSelectedFieldId(newField.id)
   }
 
-  const updateField = (id: string, updates: Partial<CertificateField>) => {
-    onFieldsUpdate(fields.map((f) => (f.id === id ? { ...f, ...updates } : f)))
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getCanvasPoint(e)
+
+    if (addingFieldType) {
+      addFieldAt(point, addingFieldType)
+      return
+    }
+
+    const hit = e.button === 1 ? null : hitTest(point)
+    if (!hit) {
+      if (e.button !== 1) setSelectedFieldId(null)
+      // Empty space (or the middle button) pans the zoomed-in view
+      if (view.zoom > MIN_ZOOM || e.button === 1) {
+        dragRef.current = { mode: "pan", startPoint: getViewportPoint(e), startView: view }
+        setHoverCursor("grabbing")
+        e.currentTarget.setPointerCapture(e.pointerId)
+      }
+      return
+    }
+
+    const field = typeof hit === "string" ? selectedField! : fields.find((f) => f.id === hit.fieldId)!
+    setSelectedFieldId(field.id)
+    dragRef.current = {
+      mode: typeof hit === "string" ? hit : "move",
+      fieldId: field.id,
+      startPoint: point,
+      startField: field,
+    }
+    beginTransaction()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    canvasContainerRef.current?.focus()
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getCanvasPoint(e)
+    const drag = dragRef.current
+
+    if (!drag) {
+      const hit = isAddingField ? null : hitTest(point)
+      setHoverCursor(
+        hit === null ? (view.zoom > MIN_ZOOM ? "grab" : "default") : typeof hit === "string" ? "ew-resize" : "move",
+      )
+      return
+    }
+
+    if (drag.mode === "pan") {
+      const viewportPoint = getViewportPoint(e)
+      const panned = {
+        ...drag.startView,
+        panX: drag.startView.panX + viewportPoint.x - drag.startPoint.x,
+        panY: drag.startView.panY + viewportPoint.y - drag.startPoint.y,
+      }
+      setView(clampPan(panned, getViewportSize(), imageSize))
+      return
+    }
+
+    const dx = point.x - drag.startPoint.x
+    const dy = point.y - drag.startPoint.y
+    const start = drag.startField
+
+    if (drag.mode === "move") {
+      updateField(drag.fieldId, { x: Math.round(start.x + dx), y: Math.round(start.y + dy) })
+      return
+    }
+
+    // Resize by moving one edge of the box; x is re-derived from the edges for the field's alignment
+    const box = getFieldBox(start)
+    const minWidth = isQrField(start) ? MIN_QR_SIZE : MIN_FIELD_WIDTH
+    let left = box.left
+    let right = box.left + box.width
+    if (drag.mode === "resize-left") left = Math.min(left + dx, right - minWidth)
+    else right = Math.max(right + dx, left + minWidth)
+
+    updateField(drag.fieldId, {
+      x: Math.round(start.alignment === "center" ? (left + right) / 2 : left),
+      maxWidth: Math.round(right - left),
+    })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return
+    if (dragRef.current.mode === "pan") setHoverCursor("grab")
+    else endTransaction()
+    dragRef.current = null
+    e.currentTarget.releasePointerCapture(e.pointerId)
+  }
+
+  // Arrow keys nudge the selected field by 1px (10px with Shift)
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!selectedField) return
+
+    const step = e.shiftKey ? 10 : 1
+    const delta: Record<string, { x: number; y: number }> = {
+      ArrowLeft: { x: -step, y: 0 },
+      ArrowRight: { x: step, y: 0 },
+      ArrowUp: { x: 0, y: -step },
+      ArrowDown: { x: 0, y: step },
+    }
+    const move = delta[e.key]
+    if (!move) return
+
+    e.preventDefault()
+    updateField(
+      selectedField.id,
+      { x: selectedField.x + move.x, y: selectedField.y + move.y },
+      `nudge:${selectedField.id}`,
+    )
+  }
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text inputs keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement
+      if (target.tagName === "TEXTAREA" || (target.tagName === "INPUT" && (target as HTMLInputElement).type === "text")) {
+        return
+      }
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
+  // Rapid edits to the same properties of a field (slider drags, typing) merge into one undo step
+  const updateField = (id: string, updates: Partial<CertificateField>, coalesceKey?: string) => {
+    applyChange(
+      fields.map((f) => (f.id === id ? { ...f, ...updates } : f)),
+      coalesceKey ?? `${id}:${Object.keys(updates).sort().join(",")}`,
+    )
   }
 
   const deleteField = (id: string) => {
-    onFieldsUpdate(fields.filter((f) => f.id !== id))
+    applyChange(fields.filter((f) => f.id !== id))
     setSelectedFieldId(null)
   }
 
-  const selectedField = fields.find((f) => f.id === selectedFieldId)
   const selectedFont = CERTIFICATE_FONTS.find((f) => f.family === selectedField?.fontFamily)
   const availableWeights = selectedFont?.weights || [400]
 
@@ -133,23 +447,78 @@ export default function FieldConfiguration({
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Certificate Preview */}
         <div className="lg:col-span-2">
-          <div className="bg-gray-100 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-end gap-2 mb-2">
+            <Button variant="outline" size="sm" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <div className="flex-1" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setZoom(view.zoom / ZOOM_STEP)}
+              disabled={view.zoom <= MIN_ZOOM}
+            >
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-gray-600 w-14 text-center">{Math.round(view.zoom * 100)}%</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setZoom(view.zoom * ZOOM_STEP)}
+              disabled={view.zoom >= MAX_ZOOM}
+            >
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setZoom(MIN_ZOOM)} disabled={view.zoom <= MIN_ZOOM}>
+              <Maximize className="w-4 h-4 mr-1" />
+              Fit
+            </Button>
+          </div>
+          <div
+            ref={canvasContainerRef}
+            tabIndex={0}
+            onKeyDown={handleCanvasKeyDown}
+            className="relative bg-gray-100 rounded-lg overflow-hidden focus:outline-none focus:ring-2 focus:ring-[#21808D]"
+            style={{ height: imageSize.height * view.fitScale || undefined }}
+          >
             <canvas
               ref={previewCanvasRef}
-              onClick={handleImageClick}
-              className={`w-full h-auto ${isAddingField ? "cursor-crosshair" : "cursor-default"}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute top-0 left-0 max-w-none touch-none"
+              style={{
+                width: imageSize.width * getViewScale(view) || "100%",
+                transform: `translate(${view.panX}px, ${view.panY}px)`,
+                cursor: isAddingField ? "crosshair" : hoverCursor,
+              }}
             />
           </div>
-
-          <Button
-            onClick={() => setIsAddingField(!isAddingField)}
-            className={`mt-4 w-full ${
-              isAddingField ? "bg-red-500 hover:bg-red-600" : "bg-[#21808D] hover:bg-[#1a6570]"
-            } text-white`}
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            {isAddingField ? "Cancel" : "Add Field"}
-          </Button>
+          <p className="text-xs text-gray-500 mt-2">
+            Drag a field to move it, drag its side handles to resize, or use the arrow keys (Shift for 10px steps).
+            Ctrl + scroll to zoom; drag empty space to pan when zoomed in.
+          </p>
+
+          {isAddingField ? (
+            <Button onClick={() => setAddingFieldType(null)} className="mt-4 w-full bg-red-500 hover:bg-red-600 text-white">
+              Cancel
+            </Button>
+          ) : (
+            <div className="mt-4 grid grid-cols-2 gap-2">
+              <Button onClick={() => setAddingFieldType("text")} className="bg-[#21808D] hover:bg-[#1a6570] text-white">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Field
+              </Button>
+              <Button onClick={() => setAddingFieldType("qr")} variant="outline">
+                <QrCode className="w-4 h-4 mr-2" />
+                Add QR Code
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Field Properties Panel */}
@@ -157,7 +526,7 @@ export default function FieldConfiguration({
           <h3 className="font-semibold text-[#1a1a1a]">Fields</h3>
 
           {fields.length === 0 ? (
-            <p className="text-gray-500 text-sm">No fields added yet. Click "Add Field" to start.</p>
+            <p className="text-gray-500 text-sm">No fields added yet. Click &quot;Add Field&quot; to start.</p>
           ) : (
             <div className="space-y-2 max-h-96 overflow-y-auto">
               {fields.map((field) => (
@@ -196,17 +565,23 @@ export default function FieldConfiguration({
 
               <div className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Field Name</label>
-                  <select
+                  <label className="text-sm font-medium text-gray-700">Field Label</label>
+                  <input
+                    type="text"
+                    list="field-label-presets"
                     value={selectedField.name}
                     onChange={(e) => updateField(selectedField.id, { name: e.target.value })}
+                    placeholder="e.g. Roll Number"
                     className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
-                  >
-                    <option>Name</option>
-                    <option>Date</option>
-                    <option>Course</option>
-                    <option>Custom</option>
-                  </select>
+                  />
+                  <datalist id="field-label-presets">
+                    {FIELD_LABEL_PRESETS.map((preset) => (
+                      <option key={preset.label} value={preset.label} />
+                    ))}
+                  </datalist>
+                  {!isQrField(selectedField) && (
+                    <p className="text-xs text-gray-500 mt-1">Matched automatically to a CSV column with the same name</p>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-2">
@@ -230,57 +605,61 @@ export default function FieldConfiguration({
                   </div>
                 </div>
 
-                <div>
-                  <label className="text-sm font-medium text-gray-700">Font Family</label>
-                  <select
-                    value={selectedField.fontFamily}
-                    onChange={(e) => {
-                      const newFont = CERTIFICATE_FONTS.find((f) => f.family === e.target.value)
-                      updateField(selectedField.id, {
-                        fontFamily: e.target.value,
-                        fontWeight: newFont?.weights[0] || 400,
-                      })
-                    }}
-                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
-                  >
-                    {["Serif", "Sans-Serif", "Script"].map((category) => (
-                      <optgroup key={category} label={category}>
-                        {CERTIFICATE_FONTS.filter((f) => f.category === category).map((font) => (
-                          <option key={font.family} value={font.family}>
-                            {font.name}
-                          </option>
+                {!isQrField(selectedField) && (
+                  <>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Font Family</label>
+                      <select
+                        value={selectedField.fontFamily}
+                        onChange={(e) => {
+                          const newFont = CERTIFICATE_FONTS.find((f) => f.family === e.target.value)
+                          updateField(selectedField.id, {
+                            fontFamily: e.target.value,
+                            fontWeight: newFont?.weights[0] || 400,
+                          })
+                        }}
+                        className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {["Serif", "Sans-Serif", "Script"].map((category) => (
+                          <optgroup key={category} label={category}>
+                            {CERTIFICATE_FONTS.filter((f) => f.category === category).map((font) => (
+                              <option key={font.family} value={font.family}>
+                                {font.name}
+                              </option>
+                            ))}
+                          </optgroup>
                         ))}
-                      </optgroup>
-                    ))}
-                  </select>
-                </div>
+                      </select>
+                    </div>
 
-                <div>
-                  <label className="text-sm font-medium text-gray-700">Font Weight</label>
-                  <select
-                    value={selectedField.fontWeight}
-                    onChange={(e) => updateField(selectedField.id, { fontWeight: Number.parseInt(e.target.value) })}
-                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
-                  >
-                    {availableWeights.map((weight) => (
-                      <option key={weight} value={weight}>
-                        {FONT_WEIGHTS[weight as keyof typeof FONT_WEIGHTS] || weight}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Font Weight</label>
+                      <select
+                        value={selectedField.fontWeight}
+                        onChange={(e) => updateField(selectedField.id, { fontWeight: Number.parseInt(e.target.value) })}
+                        className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {availableWeights.map((weight) => (
+                          <option key={weight} value={weight}>
+                            {FONT_WEIGHTS[weight as keyof typeof FONT_WEIGHTS] || weight}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
 
-                <div>
-                  <label className="text-sm font-medium text-gray-700">Font Size: {selectedField.fontSize}px</label>
-                  <input
-                    type="range"
-                    min="16"
-                    max="120"
-                    value={selectedField.fontSize}
-                    onChange={(e) => updateField(selectedField.id, { fontSize: Number.parseInt(e.target.value) })}
-                    className="w-full mt-1"
-                  />
-                </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Font Size: {selectedField.fontSize}px</label>
+                      <input
+                        type="range"
+                        min="16"
+                        max="120"
+                        value={selectedField.fontSize}
+                        onChange={(e) => updateField(selectedField.id, { fontSize: Number.parseInt(e.target.value) })}
+                        className="w-full mt-1"
+                      />
+                    </div>
+                  </>
+                )}
 
                 <div>
                   <label className="text-sm font-medium text-gray-700">Color</label>
@@ -311,17 +690,127 @@ export default function FieldConfiguration({
                   </div>
                 </div>
 
-                <div>
-                  <label className="text-sm font-medium text-gray-700">Max Width: {selectedField.maxWidth}px</label>
-                  <input
-                    type="range"
-                    min="100"
-                    max="500"
-                    value={selectedField.maxWidth}
-                    onChange={(e) => updateField(selectedField.id, { maxWidth: Number.parseInt(e.target.value) })}
-                    className="w-full mt-1"
-                  />
-                </div>
+                {isQrField(selectedField) ? (
+                  <>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">QR Code Content</label>
+                      <input
+                        type="text"
+                        value={selectedField.qrPattern ?? DEFAULT_QR_PATTERN}
+                        onChange={(e) => updateField(selectedField.id, { qrPattern: e.target.value })}
+                        placeholder={DEFAULT_QR_PATTERN}
+                        className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        A link or text with merge tags: {"{{VerificationURL}}"}, {"{{CertificateID}}"} or any CSV column,
+                        e.g. https://example.org/check?id={"{{CertificateID}}"}
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Size: {selectedField.maxWidth}px</label>
+                      <input
+                        type="range"
+                        min={MIN_QR_SIZE}
+                        max={Math.max(500, Math.min(imageSize.width, imageSize.height))}
+                        value={selectedField.maxWidth || DEFAULT_QR_SIZE}
+                        onChange={(e) => updateField(selectedField.id, { maxWidth: Number.parseInt(e.target.value) })}
+                        className="w-full mt-1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Keep printed codes at least 2 cm wide so phones can scan them</p>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Max Width: {selectedField.maxWidth}px</label>
+                      <input
+                        type="range"
+                        min="100"
+                        max={Math.max(500, imageSize.width)}
+                        value={selectedField.maxWidth}
+                        onChange={(e) => updateField(selectedField.id, { maxWidth: Number.parseInt(e.target.value) })}
+                        className="w-full mt-1"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">Text Overflow</label>
+                      <select
+                        value={selectedField.overflow || "condense"}
+                        onChange={(e) => updateField(selectedField.id, { overflow: e.target.value as TextOverflowMode })}
+                        className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {TEXT_OVERFLOW_MODES.map((mode) => (
+                          <option key={mode.value} value={mode.value}>
+                            {mode.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {selectedField.overflow === "wrap" && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label className="text-sm font-medium text-gray-700">Max Lines</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={selectedField.maxLines || ""}
+                            placeholder="Any"
+                            onChange={(e) =>
+                              updateField(selectedField.id, { maxLines: Number.parseInt(e.target.value) || undefined })
+                            }
+                            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium text-gray-700">Line Height</label>
+                          <input
+                            type="number"
+                            min="0.8"
+                            max="3"
+                            step="0.1"
+                            value={selectedField.lineHeight || DEFAULT_LINE_HEIGHT}
+                            onChange={(e) =>
+                              updateField(selectedField.id, { lineHeight: Number.parseFloat(e.target.value) || undefined })
+                            }
+                            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium text-gray-700">Box Height</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={selectedField.height || ""}
+                            placeholder="Auto"
+                            onChange={(e) =>
+                              updateField(selectedField.id, { height: Number.parseInt(e.target.value) || undefined })
+                            }
+                            className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {selectedField.overflow === "shrink" && (
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">
+                          Min Font Size: {selectedField.minFontSize || DEFAULT_MIN_FONT_SIZE}px
+                        </label>
+                        <input
+                          type="range"
+                          min="8"
+                          max={selectedField.fontSize}
+                          value={selectedField.minFontSize || DEFAULT_MIN_FONT_SIZE}
+                          onChange={(e) => updateField(selectedField.id, { minFontSize: Number.parseInt(e.target.value) })}
+                          className="w-full mt-1"
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
             </Card>
           )}
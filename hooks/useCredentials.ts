@@ -6,17 +6,20 @@ import {
   hasValidCredentials,
   validateCredentials 
 } from '@/utils/secure-storage'
+import type { SmtpServer } from '@/types/certificate'
 
 interface CredentialState {
   isAuthenticated: boolean
   email: string | null
+  // Server of the generic SMTP provider; null for Gmail credentials
+  smtp: SmtpServer | null
   isLoading: boolean
   error: string | null
   isValidating: boolean
 }
 
 interface UseCredentialsReturn extends CredentialState {
-  login: (email: string, appPassword: string) => Promise<boolean>
+  login: (email: string, appPassword: string, smtp?: SmtpServer) => Promise<boolean>
   logout: () => void
   checkCredentials: () => Promise<void>
   clearError: () => void
@@ -26,6 +29,7 @@ export function useCredentials(): UseCredentialsReturn {
   const [state, setState] = useState<CredentialState>({
     isAuthenticated: false,
     email: null,
+    smtp: null,
     isLoading: true,
     error: null,
     isValidating: false
@@ -42,6 +46,7 @@ export function useCredentials(): UseCredentialsReturn {
           ...prev,
           isAuthenticated: true,
           email: credentials.email,
+          smtp: credentials.smtp || null,
           isLoading: false
         }))
         console.log('[useCredentials] Restored credentials for:', credentials.email)
@@ -50,6 +55,7 @@ export function useCredentials(): UseCredentialsReturn {
           ...prev,
           isAuthenticated: false,
           email: null,
+          smtp: null,
           isLoading: false
         }))
       }
@@ -59,6 +65,7 @@ export function useCredentials(): UseCredentialsReturn {
         ...prev,
         isAuthenticated: false,
         email: null,
+        smtp: null,
         isLoading: false,
         error: 'Failed to check stored credentials'
       }))
@@ -66,7 +73,7 @@ export function useCredentials(): UseCredentialsReturn {
   }, [])
 
   // Login with email and app password
-  const login = useCallback(async (email: string, appPassword: string): Promise<boolean> => {
+  const login = useCallback(async (email: string, appPassword: string, smtp?: SmtpServer): Promise<boolean> => {
     try {
       setState(prev => ({ 
         ...prev, 
@@ -75,8 +82,8 @@ export function useCredentials(): UseCredentialsReturn {
         isLoading: true 
       }))
 
-      // Validate input format
-      if (!email || !appPassword) {
+      // Validate input format (SMTP relays may not need a password)
+      if (!email || (!appPassword && !smtp)) {
         setState(prev => ({ 
           ...prev, 
           error: 'Email and app password are required',
@@ -90,7 +97,7 @@ export function useCredentials(): UseCredentialsReturn {
       console.log('[useCredentials] Validating credentials for:', email)
       console.log('[useCredentials] Password length:', appPassword.length)
       console.log('[useCredentials] Password (first 4):', appPassword.substring(0, 4))
-      const isValid = await validateCredentials(email, appPassword)
+      const isValid = await validateCredentials(email, appPassword, smtp)
       
       if (!isValid) {
         setState(prev => ({ 
@@ -103,13 +110,14 @@ export function useCredentials(): UseCredentialsReturn {
       }
 
       // Encrypt and store credentials
-      await encryptCredentials(email, appPassword)
+      await encryptCredentials(email, appPassword, smtp)
       
       setState(prev => {
         const newState = {
           ...prev,
           isAuthenticated: true,
           email: email.trim().toLowerCase(),
+          smtp: smtp || null,
           isValidating: false,
           isLoading: false,
           error: null
@@ -140,6 +148,7 @@ export function useCredentials(): UseCredentialsReturn {
         ...prev,
         isAuthenticated: false,
         email: null,
+        smtp: null,
         isValidating: false,
         isLoading: false,
         error: errorMessage
@@ -156,6 +165,7 @@ export function useCredentials(): UseCredentialsReturn {
       setState({
         isAuthenticated: false,
         email: null,
+        smtp: null,
         isLoading: false,
         error: null,
         isValidating: false
@@ -173,6 +183,7 @@ export function useCredentials(): UseCredentialsReturn {
 
   // Check credentials on mount
   useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- the stored credentials live in IndexedDB, outside React
     checkCredentials()
   }, [checkCredentials])
 
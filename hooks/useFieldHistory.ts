@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { CertificateField } from '@/types/certificate'
+import { saveSession, loadSession, type FieldHistory } from '@/utils/storage'
+
+const MAX_HISTORY = 50
+// Repeated edits to the same property within this window (slider drags, typing) undo as one step
+const COALESCE_WINDOW = 1000
+
+interface UseFieldHistoryReturn {
+  applyChange: (next: CertificateField[], coalesceKey?: string) => void
+  beginTransaction: () => void
+  endTransaction: () => void
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+/**
+ * Undo/redo stack for field edits, persisted with the session.
+ * Every change goes through applyChange; pointer drags are wrapped in a
+ * transaction so a whole drag undoes as a single step.
+ */
+export function useFieldHistory(
+  fields: CertificateField[],
+  onFieldsUpdate: (fields: CertificateField[]) => void
+): UseFieldHistoryReturn {
+  const [history, setHistory] = useState<FieldHistory>({ past: [], future: [] })
+  const [historyLoaded, setHistoryLoaded] = useState(false)
+
+  const fieldsRef = useRef(fields)
+  const transactionRef = useRef<CertificateField[] | null>(null)
+  const lastChangeRef = useRef<{ key: string; time: number } | null>(null)
+
+  useEffect(() => {
+    fieldsRef.current = fields
+  }, [fields])
+
+  // Restore history saved with the session, unless the user started editing before it was read
+  useEffect(() => {
+    let cancelled = false
+    loadSession(['fieldHistory']).then(session => {
+      if (cancelled) return
+      const saved = session.fieldHistory
+      if (saved) {
+        setHistory(prev => (prev.past.length > 0 || prev.future.length > 0 ? prev : saved))
+      }
+      setHistoryLoaded(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Persist history alongside the rest of the session (once the saved copy has been read)
+  useEffect(() => {
+    if (!historyLoaded) return
+    saveSession({ fieldHistory: history })
+  }, [history, historyLoaded])
+
+  const record = useCallback((snapshot: CertificateField[]) => {
+    setHistory(prev => ({
+      past: [...prev.past, snapshot].slice(-MAX_HISTORY),
+      future: []
+    }))
+  }, [])
+
+  const applyChange = useCallback((next: CertificateField[], coalesceKey?: string) => {
+    if (!transactionRef.current) {
+      const now = Date.now()
+      const last = lastChangeRef.current
+      const coalesce = coalesceKey && last?.key === coalesceKey && now - last.time < COALESCE_WINDOW
+
+      if (!coalesce) {
+        record(fieldsRef.current)
+      }
+      lastChangeRef.current = coalesceKey ? { key: coalesceKey, time: now } : null
+    }
+
+    onFieldsUpdate(next)
+  }, [onFieldsUpdate, record])
+
+  const beginTransaction = useCallback(() => {
+    transactionRef.current = fieldsRef.current
+  }, [])
+
+  const endTransaction = useCallback(() => {
+    const snapshot = transactionRef.current
+    transactionRef.current = null
+    lastChangeRef.current = null
+
+    // Nothing changed (e.g. a click without movement): keep the stack as it was
+    if (snapshot && snapshot !== fieldsRef.current) {
+      record(snapshot)
+    }
+  }, [record])
+
+  const undo = useCallback(() => {
+    if (history.past.length === 0) return
+
+    const previous = history.past[history.past.length - 1]
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [fieldsRef.current, ...history.future].slice(0, MAX_HISTORY)
+    })
+    lastChangeRef.current = null
+    onFieldsUpdate(previous)
+  }, [history, onFieldsUpdate])
+
+  const redo = useCallback(() => {
+    if (history.future.length === 0) return
+
+    const [next, ...remaining] = history.future
+    setHistory({
+      past: [...history.past, fieldsRef.current].slice(-MAX_HISTORY),
+      future: remaining
+    })
+    lastChangeRef.current = null
+    onFieldsUpdate(next)
+  }, [history, onFieldsUpdate])
+
+  return {
+    applyChange,
+    beginTransaction,
+    endTransaction,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  }
+}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The scheduler needs Node APIs (fs, crypto) and a long-lived process
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startSendScheduler } = await import("@/lib/send-scheduler")
+    startSendScheduler()
+  }
+}
@@ -0,0 +1,21 @@
+import type { OutputFormat } from "@/types/certificate"
+
+export const CERTIFICATE_MIME_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  pdf: "application/pdf",
+}
+
+// Work out the attachment content type from a certificate file name (defaults to PNG)
+export function getCertificateContentType(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  return extension === "pdf" ? CERTIFICATE_MIME_TYPES.pdf : CERTIFICATE_MIME_TYPES.png
+}
+
+export const BADGE_MIME_TYPES = {
+  json: "application/ld+json",
+  jwt: "application/jwt",
+}
+
+// An Open Badge is named after its certificate: 001_Ada_Lovelace.png → 001_Ada_Lovelace_badge.json / .jwt
+export const getBadgeFileName = (certificateFileName: string, extension: keyof typeof BADGE_MIME_TYPES) =>
+  `${certificateFileName.replace(/\.[^.]+$/, "")}_badge.${extension}`
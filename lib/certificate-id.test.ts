@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { createCertificateId, hashCertificateFile, normalizeCertificateId } from "@/lib/certificate-id"
+
+describe("createCertificateId", () => {
+  it("creates IDs that are already in canonical form", () => {
+    for (let i = 0; i < 20; i++) {
+      const id = createCertificateId()
+      expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/)
+      expect(normalizeCertificateId(id)).toBe(id)
+    }
+  })
+})
+
+describe("normalizeCertificateId", () => {
+  it("ignores case, spaces and where the dashes are", () => {
+    expect(normalizeCertificateId("7k3m-9qxp-2b4d")).toBe("7K3M-9QXP-2B4D")
+    expect(normalizeCertificateId(" 7K3M 9QXP 2B4D ")).toBe("7K3M-9QXP-2B4D")
+    expect(normalizeCertificateId("7K3M9QXP2B4D")).toBe("7K3M-9QXP-2B4D")
+    expect(normalizeCertificateId("7K-3M9Q-XP2B-4D")).toBe("7K3M-9QXP-2B4D")
+  })
+
+  it("reads the look-alikes I and L as 1 and O as 0", () => {
+    expect(normalizeCertificateId("IL00-OOOO-iloo")).toBe("1100-0000-1100")
+  })
+
+  it("rejects IDs of the wrong length or with characters outside the alphabet", () => {
+    expect(normalizeCertificateId("7K3M-9QXP-2B4")).toBeNull()
+    expect(normalizeCertificateId("7K3M-9QXP-2B4DE")).toBeNull()
+    expect(normalizeCertificateId("7K3M-9QXP-2B4U")).toBeNull()
+    expect(normalizeCertificateId("../../etc/pw")).toBeNull()
+    expect(normalizeCertificateId("")).toBeNull()
+  })
+})
+
+describe("hashCertificateFile", () => {
+  it("returns the file's sha256 as hex", async () => {
+    expect(await hashCertificateFile(new Blob(["abc"]))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    )
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Certificate IDs, e.g. "7K3M-9QXP-2B4D": 12 Crockford base32 characters
+ * (60 random bits), short enough to type from a printed certificate and free
+ * of look-alikes (no I, L, O or U). Used in the browser at generation time and
+ * on the server when verifying, so nothing here may import Node modules.
+ */
+
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+const ID_LENGTH = 12
+const GROUP_SIZE = 4
+
+const group = (chars: string) => chars.match(new RegExp(`.{1,${GROUP_SIZE}}`, "g"))!.join("-")
+
+export function createCertificateId(): string {
+  // 32 divides 256, so masking keeps every character equally likely
+  const bytes = crypto.getRandomValues(new Uint8Array(ID_LENGTH))
+  return group(Array.from(bytes, (byte) => ALPHABET[byte & 31]).join(""))
+}
+
+/**
+ * Canonical form of an ID as someone typed it: case, spaces and dashes do not
+ * matter, and I/L and O are read as 1 and 0. Returns null for anything that
+ * is not a certificate ID.
+ */
+export function normalizeCertificateId(input: string): string | null {
+  const chars = input
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/[IL]/g, "1")
+    .replace(/O/g, "0")
+
+  if (chars.length !== ID_LENGTH || [...chars].some((char) => !ALPHABET.includes(char))) return null
+  return group(chars)
+}
+
+// Certificates per registration request; the generation step splits larger runs
+export const MAX_REGISTRATION_BATCH = 1000
+
+export const getVerificationPath = (id: string) => `/verify/${id}`
+
+// sha256 of a certificate file as hex, the registry's content hash
+export async function hashCertificateFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,128 @@
+import os from "os"
+import path from "path"
+import { mkdtemp, rm } from "fs/promises"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { createCertificateId } from "@/lib/certificate-id"
+import type { CertificateRecord, ReissuedCertificate } from "@/types/certificate"
+
+// Records live under DATA_DIR, which is read when the module loads
+let dataDir: string
+let registry: typeof import("@/lib/certificate-registry")
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(os.tmpdir(), "certificate-registry-"))
+  vi.stubEnv("DATA_DIR", dataDir)
+  vi.resetModules()
+  registry = await import("@/lib/certificate-registry")
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+const certificate = (overrides: Partial<CertificateRecord> = {}): CertificateRecord => ({
+  id: createCertificateId(),
+  holderName: "Jane Doe",
+  course: "Intro to Testing",
+  issueDate: "2026-06-01",
+  issuedAt: "2026-06-01T10:00:00.000Z",
+  contentHash: "a".repeat(64),
+  format: "pdf",
+  ...overrides,
+})
+
+// Register a certificate and return a corrected copy that replaces it
+async function registered() {
+  const original = certificate()
+  await registry.registerCertificates([original])
+  const corrected: ReissuedCertificate = { ...certificate({ holderName: "Jane Q. Doe" }), supersedes: original.id }
+  return { original, corrected }
+}
+
+describe("parseCertificateRecords", () => {
+  it("keeps only known fields of well-formed records", () => {
+    const record = certificate()
+
+    expect(registry.parseCertificateRecords({ certificates: [{ ...record, email: "jane@example.com" }] })).toEqual({
+      records: [record],
+    })
+  })
+
+  it("only accepts the ID to replace on a reissue", () => {
+    const plain = certificate()
+    const record = { ...plain, supersedes: createCertificateId() }
+
+    expect(registry.parseCertificateRecords({ certificates: [record] })).toEqual({ records: [plain] })
+    expect(registry.parseCertificateRecords({ certificates: [record] }, true)).toEqual({ records: [record] })
+    expect(registry.parseCertificateRecords({ certificates: [{ ...record, supersedes: record.id }] }, true)).toEqual({
+      error: `Certificate ${record.id} does not name a valid certificate to replace`,
+    })
+  })
+
+  it("rejects empty batches and invalid records", () => {
+    expect(registry.parseCertificateRecords({ certificates: [] })).toEqual({ error: "No certificates provided" })
+    expect(registry.parseCertificateRecords({ certificates: [certificate({ id: "not-an-id" })] })).toEqual({
+      error: "Invalid certificate ID",
+    })
+    expect(registry.parseCertificateRecords({ certificates: [certificate({ contentHash: "abc" })] })).toHaveProperty("error")
+  })
+})
+
+describe("revokeCertificate", () => {
+  it("revokes a certificate once, with the reason shown to verifiers", async () => {
+    const { original } = await registered()
+
+    expect(await registry.revokeCertificate(original.id, "Issued by mistake")).toBe(true)
+    expect(await registry.revokeCertificate(original.id, "Again")).toBe(false)
+    expect(await registry.getCertificateRecord(original.id.toLowerCase())).toMatchObject({
+      status: "revoked",
+      revocationReason: "Issued by mistake",
+    })
+  })
+})
+
+describe("reissueCertificates", () => {
+  it("revokes the old certificate in favour of the corrected one", async () => {
+    const { original, corrected } = await registered()
+
+    expect(await registry.reissueCertificates([corrected], registry.DEFAULT_REISSUE_REASON)).toBeNull()
+    expect(await registry.getCertificateRecord(original.id)).toMatchObject({
+      status: "revoked",
+      revocationReason: registry.DEFAULT_REISSUE_REASON,
+      replacedBy: corrected.id,
+    })
+    expect(await registry.getCertificateRecord(corrected.id)).toMatchObject({
+      status: "active",
+      holderName: "Jane Q. Doe",
+      supersedes: original.id,
+    })
+  })
+
+  it("stops at a certificate that was already revoked, keeping the ones before it", async () => {
+    const first = await registered()
+    const second = await registered()
+    await registry.revokeCertificate(second.original.id, "Issued by mistake")
+
+    expect(await registry.reissueCertificates([first.corrected, second.corrected], "Typo")).toBe(second.original.id)
+    expect(await registry.getCertificateRecord(first.corrected.id)).toMatchObject({ status: "active" })
+    expect(await registry.getCertificateRecord(second.original.id)).toMatchObject({ revocationReason: "Issued by mistake" })
+    expect(await registry.getCertificateRecord(second.corrected.id)).toBeNull()
+  })
+
+  it("takes a revocation back when its replacement cannot be registered", async () => {
+    const first = await registered()
+    const second = await registered()
+    // The replacement's ID is already taken
+    await registry.registerCertificates([certificate({ id: second.corrected.id })])
+
+    expect(await registry.reissueCertificates([first.corrected, second.corrected], "Typo")).toBe(second.corrected.id)
+    expect(await registry.getCertificateRecord(first.original.id)).toMatchObject({ status: "revoked" })
+    expect(await registry.getCertificateRecord(second.original.id)).toMatchObject({ status: "active" })
+    expect(await registry.revokeCertificate(second.original.id, "Typo", second.corrected.id)).toBe(true)
+  })
+})
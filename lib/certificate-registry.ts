@@ -0,0 +1,230 @@
+import path from "path"
+import { createHash, timingSafeEqual } from "crypto"
+import { mkdir, readFile, unlink, writeFile } from "fs/promises"
+import { MAX_REGISTRATION_BATCH, normalizeCertificateId } from "@/lib/certificate-id"
+import { isRecord } from "@/lib/utils"
+import type { CertificateRecord, OutputFormat, ReissuedCertificate } from "@/types/certificate"
+
+/**
+ * Registry of issued certificates, for public verification. Each certificate
+ * is one JSON file under DATA_DIR (default .data/) named after its ID, created
+ * exclusively so an ID can never be registered twice. Holds only what a
+ * verifier is shown: no email addresses.
+ *
+ * Revocations are kept beside the records in revoked/<ID>.json, also created
+ * exclusively: an issued record is never rewritten, and a certificate can only
+ * be revoked (or replaced) once.
+ */
+
+const REGISTRY_DIR = path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "certificates")
+const REVOCATIONS_DIR = path.join(REGISTRY_DIR, "revoked")
+
+const MAX_TEXT_LENGTH = 300
+const FORMATS: OutputFormat[] = ["png", "pdf"]
+const HASH_PATTERN = /^[0-9a-f]{64}$/
+
+export const DEFAULT_REISSUE_REASON = "Reissued with corrections"
+
+interface Revocation {
+  revokedAt: string
+  reason: string
+  replacedBy?: string
+}
+
+const recordFile = (id: string) => path.join(REGISTRY_DIR, `${id}.json`)
+const revocationFile = (id: string) => path.join(REVOCATIONS_DIR, `${id}.json`)
+
+const isCertificateId = (value: unknown): value is string =>
+  typeof value === "string" && normalizeCertificateId(value) === value
+
+const isText = (value: unknown, required = true): value is string =>
+  typeof value === "string" && value.length <= MAX_TEXT_LENGTH && (!required || value.trim() !== "")
+
+const isFormat = (value: unknown): value is OutputFormat => FORMATS.some((format) => format === value)
+
+// Read one record as posted by the generation step; only known fields are kept
+function parseRecord(record: unknown, reissue: boolean): { record: CertificateRecord } | { error: string } {
+  if (!isRecord(record) || !isCertificateId(record.id)) {
+    return { error: "Invalid certificate ID" }
+  }
+  const { id, holderName, course, issueDate, issuedAt, contentHash, format, supersedes } = record
+  if (!isText(holderName)) return { error: `Certificate ${id} has no holder name` }
+  if (!isText(course, false) || !isText(issueDate, false)) return { error: `Certificate ${id} has invalid details` }
+  if (typeof issuedAt !== "string" || Number.isNaN(Date.parse(issuedAt))) {
+    return { error: `Certificate ${id} has an invalid issue time` }
+  }
+  if (typeof contentHash !== "string" || !HASH_PATTERN.test(contentHash)) {
+    return { error: `Certificate ${id} has an invalid content hash` }
+  }
+  if (!isFormat(format)) return { error: `Certificate ${id} has an unknown format` }
+  if (reissue && (!isCertificateId(supersedes) || supersedes === id)) {
+    return { error: `Certificate ${id} does not name a valid certificate to replace` }
+  }
+
+  return {
+    record: {
+      id,
+      holderName: holderName.trim(),
+      course: course.trim(),
+      issueDate: issueDate.trim(),
+      issuedAt: new Date(issuedAt).toISOString(),
+      contentHash,
+      format,
+      ...(reissue && isCertificateId(supersedes) && { supersedes }),
+    },
+  }
+}
+
+export function parseCertificateRecords(body: unknown): { records: CertificateRecord[] } | { error: string }
+export function parseCertificateRecords(body: unknown, reissue: true): { records: ReissuedCertificate[] } | { error: string }
+/**
+ * Read { certificates: [...] } from a registration request. A reissue also
+ * names the ID each certificate supersedes; plain registrations cannot.
+ */
+export function parseCertificateRecords(body: unknown, reissue = false): { records: CertificateRecord[] } | { error: string } {
+  const certificates = isRecord(body) ? body.certificates : undefined
+  if (!Array.isArray(certificates) || certificates.length === 0) {
+    return { error: "No certificates provided" }
+  }
+  if (certificates.length > MAX_REGISTRATION_BATCH) {
+    return { error: `At most ${MAX_REGISTRATION_BATCH} certificates can be registered at once` }
+  }
+
+  const records: CertificateRecord[] = []
+  for (const certificate of certificates) {
+    const parsed = parseRecord(certificate, reissue)
+    if ("error" in parsed) return parsed
+    records.push(parsed.record)
+  }
+  return { records }
+}
+
+// Read the reason a certificate is revoked for; empty unless required
+export function parseRevocationReason(value: unknown, required = true): { reason: string } | { error: string } {
+  if (value !== undefined && !isText(value, false)) {
+    return { error: `The reason must be text of at most ${MAX_TEXT_LENGTH} characters` }
+  }
+  const reason = typeof value === "string" ? value.trim() : ""
+  if (required && !reason) return { error: "A reason is required to revoke a certificate" }
+  return { reason }
+}
+
+/**
+ * Add certificates to the registry, one at a time since batches can be
+ * large. Stops at the first ID that is already registered and returns it;
+ * records before it stay registered.
+ */
+export async function registerCertificates(records: CertificateRecord[]): Promise<string | null> {
+  await mkdir(REGISTRY_DIR, { recursive: true })
+
+  for (const record of records) {
+    try {
+      await writeFile(recordFile(record.id), JSON.stringify(record), { flag: "wx" })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") return record.id
+      throw error
+    }
+  }
+
+  console.log(`[Registry] Registered ${records.length} certificates`)
+  return null
+}
+
+/**
+ * Registering, revoking, reissuing and signing need the registry admin key,
+ * sent as Authorization: Bearer <REGISTRY_ADMIN_KEY>. Without the variable,
+ * certificates can still be generated but not registered, revoked or
+ * signed. Returns the problem, if any.
+ */
+export function checkRegistryAdmin(request: Request): { error: string; status: number } | null {
+  const adminKey = process.env.REGISTRY_ADMIN_KEY
+  if (!adminKey) {
+    return { error: "This needs REGISTRY_ADMIN_KEY to be set on the server.", status: 503 }
+  }
+
+  // Compare digests so timing reveals neither the key's length nor its content
+  const given = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  if (!given || !timingSafeEqual(digest(given), digest(adminKey))) {
+    return { error: "Invalid admin key", status: 401 }
+  }
+  return null
+}
+
+const readJson = async <T>(file: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await readFile(file, "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+/**
+ * Look up a certificate by its ID as typed by a verifier, with its status
+ * and any revocation; null when it is not in the registry.
+ */
+export async function getCertificateRecord(input: string): Promise<CertificateRecord | null> {
+  // Also keeps anything but a well-formed ID out of the file path
+  const id = normalizeCertificateId(input)
+  if (!id) return null
+
+  const record = await readJson<CertificateRecord>(recordFile(id))
+  if (!record) return null
+
+  const revocation = await readJson<Revocation>(revocationFile(id))
+  if (!revocation) return { ...record, status: "active" }
+
+  return {
+    ...record,
+    status: "revoked",
+    revokedAt: revocation.revokedAt,
+    revocationReason: revocation.reason,
+    ...(revocation.replacedBy && { replacedBy: revocation.replacedBy }),
+  }
+}
+
+/**
+ * Mark a registered certificate as revoked. Returns false when it already
+ * was, so two admins (or a retried request) cannot revoke it twice.
+ */
+export async function revokeCertificate(id: string, reason: string, replacedBy?: string): Promise<boolean> {
+  await mkdir(REVOCATIONS_DIR, { recursive: true })
+
+  const revocation: Revocation = { revokedAt: new Date().toISOString(), reason, ...(replacedBy && { replacedBy }) }
+  try {
+    await writeFile(revocationFile(id), JSON.stringify(revocation), { flag: "wx" })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false
+    throw error
+  }
+
+  console.log(`[Registry] Revoked ${id}${replacedBy ? `, replaced by ${replacedBy}` : ""}`)
+  return true
+}
+
+/**
+ * Replace certificates with corrected ones: each old ID is revoked, pointing
+ * at its replacement, then the replacement is registered. Like registration,
+ * stops at the first conflict (an old ID already revoked, or a new ID already
+ * taken) and returns that ID; certificates before it stay reissued.
+ */
+export async function reissueCertificates(records: ReissuedCertificate[], reason: string): Promise<string | null> {
+  await mkdir(REGISTRY_DIR, { recursive: true })
+
+  for (const record of records) {
+    if (!(await revokeCertificate(record.supersedes, reason, record.id))) return record.supersedes
+
+    try {
+      await writeFile(recordFile(record.id), JSON.stringify(record), { flag: "wx" })
+    } catch (error) {
+      // Leave the old certificate valid rather than pointing at a replacement that is not there
+      await unlink(revocationFile(record.supersedes)).catch(() => {})
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") return record.id
+      throw error
+    }
+  }
+
+  console.log(`[Registry] Reissued ${records.length} certificates`)
+  return null
+}
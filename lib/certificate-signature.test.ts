@@ -0,0 +1,111 @@
+import os from "os"
+import path from "path"
+import { mkdtemp, rm } from "fs/promises"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { buildSignatureManifest, checkFileSignature, parseSignatureManifest } from "@/lib/certificate-signature"
+import { hashCertificateFile } from "@/lib/certificate-id"
+import type { FileToSign, IssuerKeyInfo, SignatureManifest } from "@/types/certificate"
+
+// The issuer key is created under DATA_DIR, which is read when the module loads
+let dataDir: string
+let issuerKey: typeof import("@/lib/issuer-key")
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(os.tmpdir(), "certificate-signature-"))
+  vi.stubEnv("DATA_DIR", dataDir)
+  vi.resetModules()
+  issuerKey = await import("@/lib/issuer-key")
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+const certificateFile = new Blob(["certificate for Jane Doe"])
+
+// Sign the certificate file the way the generation step does, and read back the manifest a verifier picks
+async function signedManifest(): Promise<{ manifest: SignatureManifest; issuer: IssuerKeyInfo }> {
+  const file: FileToSign = {
+    fileName: "001_Jane_Doe.pdf",
+    contentHash: await hashCertificateFile(certificateFile),
+    certificateId: "7K3M-9QXP-2B4D",
+  }
+  const { issuer, signatures } = await issuerKey.signCertificateFiles([file])
+  const manifest = parseSignatureManifest(JSON.stringify(buildSignatureManifest(issuer, signatures)))
+  if (!manifest) throw new Error("The signed manifest could not be read back")
+  return { manifest, issuer }
+}
+
+describe("checkFileSignature", () => {
+  it("verifies a file signed by the issuer's key", async () => {
+    const { manifest, issuer } = await signedManifest()
+
+    expect(await checkFileSignature(certificateFile, manifest, await issuerKey.getIssuerKeyInfo())).toEqual({
+      status: "valid",
+      payload: expect.objectContaining({ fileName: "001_Jane_Doe.pdf", certificateId: "7K3M-9QXP-2B4D", keyId: issuer.keyId }),
+    })
+  })
+
+  it("reports a changed payload as invalid", async () => {
+    const { manifest, issuer } = await signedManifest()
+    const [signed] = manifest.files
+    const tampered = { ...manifest, files: [{ ...signed, payload: signed.payload.replace("Jane_Doe", "John_Doe") }] }
+
+    expect(await checkFileSignature(certificateFile, tampered, issuer)).toMatchObject({
+      status: "invalid",
+      payload: { fileName: "001_John_Doe.pdf" },
+    })
+  })
+
+  it("reports a malformed signature as invalid", async () => {
+    const { manifest, issuer } = await signedManifest()
+    const garbled = { ...manifest, files: manifest.files.map((signed) => ({ ...signed, signature: "not-a-signature" })) }
+
+    expect(await checkFileSignature(certificateFile, garbled, issuer)).toMatchObject({ status: "invalid" })
+  })
+
+  it("tells apart files that are not listed and files signed with another key", async () => {
+    const { manifest, issuer } = await signedManifest()
+
+    expect(await checkFileSignature(new Blob(["edited certificate"]), manifest, issuer)).toEqual({ status: "not-listed" })
+    expect(await checkFileSignature(certificateFile, manifest, { ...issuer, keyId: "another-key" })).toMatchObject({
+      status: "other-key",
+    })
+  })
+})
+
+describe("parseSignatureManifest", () => {
+  it("rejects anything that is not a signature manifest", () => {
+    expect(parseSignatureManifest("not json")).toBeNull()
+    expect(parseSignatureManifest(JSON.stringify({ version: 2, issuer: {}, files: [] }))).toBeNull()
+    expect(parseSignatureManifest(JSON.stringify({ version: 1, issuer: {}, files: [{ fileName: "a.pdf" }] }))).toBeNull()
+  })
+})
+
+describe("parseFilesToSign", () => {
+  it("keeps only known fields", () => {
+    const file = { fileName: "001_Jane_Doe.pdf", contentHash: "a".repeat(64) }
+
+    expect(issuerKey.parseFilesToSign({ certificates: [{ ...file, holderName: "Jane Doe" }] })).toEqual({ files: [file] })
+  })
+
+  it("rejects files without a name, hash or valid certificate ID", () => {
+    const file = { fileName: "001_Jane_Doe.pdf", contentHash: "a".repeat(64) }
+
+    expect(issuerKey.parseFilesToSign({ certificates: [] })).toEqual({ error: "No certificates provided" })
+    expect(issuerKey.parseFilesToSign({ certificates: [{ ...file, fileName: " " }] })).toEqual({
+      error: "Every certificate needs a file name",
+    })
+    expect(issuerKey.parseFilesToSign({ certificates: [{ ...file, contentHash: "abc" }] })).toEqual({
+      error: "001_Jane_Doe.pdf has an invalid content hash",
+    })
+    expect(issuerKey.parseFilesToSign({ certificates: [{ ...file, certificateId: "7k3m-9qxp-2b4d" }] })).toEqual({
+      error: "001_Jane_Doe.pdf has an invalid certificate ID",
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { hashCertificateFile } from "@/lib/certificate-id"
+import { isRecord } from "@/lib/utils"
+import type { IssuerKeyInfo, SignatureManifest, SignaturePayload, SignedFile } from "@/types/certificate"
+
+/**
+ * Detached signatures in the browser: building signatures.json at generation
+ * time, and checking a file against it with Web Crypto. The file is hashed
+ * locally and never uploaded. Nothing here may import Node modules.
+ */
+
+export const SIGNATURE_MANIFEST_FILE = "signatures.json"
+
+export type SignatureCheck =
+  | { status: "valid"; payload: SignaturePayload }
+  // The file's hash is in no entry: it was edited, or belongs to another batch
+  | { status: "not-listed" }
+  // Listed, but signed with a key other than the issuer's current one
+  | { status: "other-key"; payload: SignaturePayload }
+  // The entry was tampered with, so its signature does not verify
+  | { status: "invalid"; payload: SignaturePayload }
+
+export const buildSignatureManifest = (issuer: IssuerKeyInfo, files: SignedFile[]): SignatureManifest => ({
+  version: 1,
+  algorithm: "ES256",
+  issuer,
+  files,
+})
+
+const isSignaturePayload = (value: unknown): value is SignaturePayload =>
+  isRecord(value) &&
+  ["fileName", "contentHash", "issuer", "keyId", "signedAt"].every((field) => typeof value[field] === "string") &&
+  (value.certificateId === undefined || typeof value.certificateId === "string")
+
+const parsePayload = (text: string): SignaturePayload | null => {
+  try {
+    const payload: unknown = JSON.parse(text)
+    return isSignaturePayload(payload) ? payload : null
+  } catch {
+    return null
+  }
+}
+
+const isSignedFile = (file: unknown): file is SignedFile =>
+  isRecord(file) && typeof file.fileName === "string" && typeof file.payload === "string" && typeof file.signature === "string"
+
+const isSignatureManifest = (value: unknown): value is SignatureManifest =>
+  isRecord(value) && value.version === 1 && isRecord(value.issuer) && Array.isArray(value.files) && value.files.every(isSignedFile)
+
+// Read signatures.json as picked by a verifier; null when it is not a manifest
+export function parseSignatureManifest(text: string): SignatureManifest | null {
+  try {
+    const manifest: unknown = JSON.parse(text)
+    return isSignatureManifest(manifest) ? manifest : null
+  } catch {
+    return null
+  }
+}
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  return Uint8Array.from(atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=")), (char) =>
+    char.charCodeAt(0),
+  )
+}
+
+/**
+ * Check a certificate file against a manifest, using the issuer's published
+ * key rather than the copy in the manifest, which anyone could replace.
+ */
+export async function checkFileSignature(
+  file: Blob,
+  manifest: SignatureManifest,
+  issuer: IssuerKeyInfo,
+): Promise<SignatureCheck> {
+  const contentHash = await hashCertificateFile(file)
+  const entry = manifest.files
+    .map((signed) => ({ signed, payload: parsePayload(signed.payload) }))
+    .find(({ payload }) => payload?.contentHash === contentHash)
+  const payload = entry?.payload
+  if (!entry || !payload) return { status: "not-listed" }
+
+  if (payload.keyId !== issuer.keyId) return { status: "other-key", payload }
+
+  try {
+    const key = await crypto.subtle.importKey("jwk", issuer.publicKey, { name: "ECDSA", namedCurve: "P-256" }, false, [
+      "verify",
+    ])
+    const valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      fromBase64Url(entry.signed.signature),
+      new TextEncoder().encode(entry.signed.payload),
+    )
+    return { status: valid ? "valid" : "invalid", payload }
+  } catch {
+    // A malformed signature is as good as a wrong one
+    return { status: "invalid", payload }
+  }
+}
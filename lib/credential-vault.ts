@@ -0,0 +1,40 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+import type { EmailCredentials } from "@/types/certificate"
+
+/**
+ * Server-side encryption for the credentials of scheduled send jobs, which
+ * have to outlive the request (and a restart) that created them. The key is
+ * derived from SEND_JOB_SECRET; without it, jobs that need credentials
+ * cannot be scheduled.
+ */
+
+const ALGORITHM = "aes-256-gcm"
+
+const getKey = () => {
+  const secret = process.env.SEND_JOB_SECRET
+  return secret ? createHash("sha256").update(secret).digest() : null
+}
+
+export const canStoreCredentials = () => getKey() !== null
+
+export function sealCredentials(credentials: EmailCredentials): string {
+  const key = getKey()
+  if (!key) throw new Error("SEND_JOB_SECRET is not set")
+
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(credentials), "utf8"), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".")
+}
+
+export function openCredentials(sealed: string): EmailCredentials {
+  const key = getKey()
+  if (!key) throw new Error("SEND_JOB_SECRET is not set")
+
+  const [iv, tag, encrypted] = sealed.split(".").map((part) => Buffer.from(part, "base64"))
+  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+
+  return JSON.parse(Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8"))
+}
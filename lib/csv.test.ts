@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest"
+import { CsvParser, detectDelimiter, formatCsv, parseCsv, parseCsvFile } from "@/lib/csv"
+
+describe("parseCsv", () => {
+  it("reads quoted values with delimiters, line breaks and escaped quotes", () => {
+    const result = parseCsv('Name,Note\r\n"Doe, Jane","Said ""hi""\nthen left"\r\nSam,plain\r\n')
+
+    expect(result.errors).toEqual([])
+    expect(result.headers).toEqual(["Name", "Note"])
+    expect(result.rows).toEqual([
+      { Name: "Doe, Jane", Note: 'Said "hi"\nthen left' },
+      { Name: "Sam", Note: "plain" },
+    ])
+  })
+
+  it("strips a UTF-8 BOM and keeps non-ASCII text", () => {
+    const result = parseCsv("\uFEFFName,Email\nNguyễn Văn,an@example.com")
+
+    expect(result.headers).toEqual(["Name", "Email"])
+    expect(result.rows).toEqual([{ Name: "Nguyễn Văn", Email: "an@example.com" }])
+  })
+
+  it("accepts CR-only line endings and skips blank lines", () => {
+    const result = parseCsv("Name\rAda\r\r\rGrace\r")
+
+    expect(result.rows).toEqual([{ Name: "Ada" }, { Name: "Grace" }])
+  })
+
+  it("names blank headers by position", () => {
+    expect(parseCsv("Name,,Email\na,b,c").headers).toEqual(["Name", "Column 2", "Email"])
+  })
+
+  it("reports rows with the wrong number of columns by line instead of shifting them", () => {
+    const result = parseCsv('Name,Email\n"multi\nline",a@example.com\nonly-one\nok,b@example.com')
+
+    expect(result.rows).toEqual([
+      { Name: "multi\nline", Email: "a@example.com" },
+      { Name: "ok", Email: "b@example.com" },
+    ])
+    expect(result.errors).toEqual([{ line: 4, message: "Expected 2 columns but found 1" }])
+  })
+
+  it("reports stray quotes and an unterminated quoted value", () => {
+    const result = parseCsv('Name,Email\nab"c,x@example.com\n"open,y@example.com')
+
+    expect(result.rows).toEqual([])
+    expect(result.errors).toEqual([
+      { line: 2, message: "Unexpected quote inside an unquoted value" },
+      { line: 3, message: "Unterminated quoted value" },
+    ])
+  })
+})
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter that splits lines consistently, ignoring quoted ones", () => {
+    expect(detectDelimiter('Name;Email\n"Doe, Jane";jane@example.com\nSam;sam@example.com')).toBe(";")
+    expect(detectDelimiter("Name\tEmail\nJane\tjane@example.com")).toBe("\t")
+    expect(detectDelimiter("Name,Email\nJane,jane@example.com")).toBe(",")
+  })
+})
+
+describe("CsvParser", () => {
+  it("parses quotes and CRLF line breaks split across chunks", () => {
+    const parser = new CsvParser(",")
+    const records = [...parser.push('a,"b\r'), ...parser.push('\nc""d"\r'), ...parser.push("\ne,f"), ...parser.end()]
+
+    expect(records).toEqual([
+      { line: 1, values: ["a", 'b\nc"d'] },
+      { line: 3, values: ["e", "f"] },
+    ])
+    expect(parser.errors).toEqual([])
+  })
+})
+
+describe("parseCsvFile", () => {
+  it("gives the same result as parsing the text in memory", async () => {
+    const text = `Name;City\n${Array.from({ length: 500 }, (_, i) => `"Person ${i}";"Hà Nội; ${i}"`).join("\n")}`
+    const file = new File([text], "recipients.csv")
+
+    expect(await parseCsvFile(file)).toEqual(parseCsv(text))
+  })
+})
+
+describe("formatCsv", () => {
+  it("quotes only values that need it and round-trips through the parser", () => {
+    const rows = [{ Name: 'Jane "JJ" Doe', Note: "a,b", Count: 2 }, { Name: "Sam", Note: "line\nbreak" }]
+    const csv = formatCsv(["Name", "Note", "Count"], rows)
+
+    expect(csv).toBe('Name,Note,Count\r\n"Jane ""JJ"" Doe","a,b",2\r\nSam,"line\nbreak",')
+    expect(parseCsv(csv).rows).toEqual([
+      { Name: 'Jane "JJ" Doe', Note: "a,b", Count: "2" },
+      { Name: "Sam", Note: "line\nbreak", Count: "" },
+    ])
+  })
+})
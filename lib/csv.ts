@@ -0,0 +1,299 @@
+/**
+ * RFC 4180 CSV parsing for recipient uploads.
+ * Handles quoted values with delimiters, newlines and escaped quotes (""),
+ * CRLF/LF/CR line endings and a UTF-8 BOM, and reports malformed lines
+ * instead of silently shifting columns.
+ */
+
+export type CsvDelimiter = "," | ";" | "\t"
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t"]
+
+export interface CsvRecord {
+  // 1-based physical line the record starts on
+  line: number
+  values: string[]
+}
+
+export interface CsvParseError {
+  line: number
+  message: string
+}
+
+export interface CsvParseResult {
+  headers: string[]
+  rows: Array<Record<string, string>>
+  delimiter: CsvDelimiter
+  errors: CsvParseError[]
+}
+
+type ParserState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted"
+
+/**
+ * Incremental parser: push text chunks as they arrive and collect the
+ * records completed so far. Quotes and line breaks may span chunks.
+ */
+export class CsvParser {
+  private state: ParserState = "fieldStart"
+  private field = ""
+  private record: string[] = []
+  private line = 1
+  private recordLine = 1
+  private pendingCR = false
+  private malformed: string | null = null
+  readonly errors: CsvParseError[] = []
+
+  constructor(private readonly delimiter: CsvDelimiter) {}
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = []
+
+    for (const char of chunk) {
+      // A CR followed by LF is one line break
+      if (this.pendingCR) {
+        this.pendingCR = false
+        if (char === "\n") continue
+      }
+
+      switch (this.state) {
+        case "quoted":
+          if (char === '"') {
+            this.state = "quoteInQuoted"
+          } else {
+            if (char === "\n" || char === "\r") {
+              this.line++
+              this.pendingCR = char === "\r"
+              this.field += "\n"
+            } else {
+              this.field += char
+            }
+          }
+          break
+
+        case "quoteInQuoted":
+          if (char === '"') {
+            // Escaped quote
+            this.field += '"'
+            this.state = "quoted"
+          } else if (char === this.delimiter) {
+            this.endField()
+          } else if (char === "\n" || char === "\r") {
+            this.endRecord(records, char)
+          } else if (char === " " || char === "\t") {
+            // Padding after a closing quote is ignored
+          } else {
+            this.malformed ??= `Unexpected character after closing quote`
+            this.field += char
+            this.state = "unquoted"
+          }
+          break
+
+        default:
+          if (char === this.delimiter) {
+            this.endField()
+          } else if (char === "\n" || char === "\r") {
+            this.endRecord(records, char)
+          } else if (char === '"') {
+            // Tolerate padding before an opening quote, e.g. `a, "b"`
+            if (this.state === "fieldStart" || this.field.trim() === "") {
+              this.field = ""
+              this.state = "quoted"
+            } else {
+              this.malformed ??= `Unexpected quote inside an unquoted value`
+              this.field += char
+            }
+          } else {
+            this.field += char
+            this.state = "unquoted"
+          }
+      }
+    }
+
+    return records
+  }
+
+  // Flush the final record; reports a quote left open at end of input
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = []
+
+    if (this.state === "quoted") {
+      this.errors.push({ line: this.recordLine, message: "Unterminated quoted value" })
+      this.resetRecord()
+      return records
+    }
+
+    if (this.state !== "fieldStart" || this.record.length > 0) {
+      this.endRecord(records, "")
+    }
+    return records
+  }
+
+  private endField() {
+    this.record.push(this.field)
+    this.field = ""
+    this.state = "fieldStart"
+  }
+
+  private endRecord(records: CsvRecord[], lineBreak: string) {
+    this.endField()
+
+    if (this.malformed) {
+      this.errors.push({ line: this.recordLine, message: this.malformed })
+    } else if (!(this.record.length === 1 && this.record[0].trim() === "")) {
+      // Blank lines are skipped rather than treated as empty records
+      records.push({ line: this.recordLine, values: this.record })
+    }
+
+    if (lineBreak) {
+      this.line++
+      this.pendingCR = lineBreak === "\r"
+    }
+    this.resetRecord()
+  }
+
+  private resetRecord() {
+    this.record = []
+    this.field = ""
+    this.state = "fieldStart"
+    this.malformed = null
+    this.recordLine = this.line
+  }
+}
+
+/**
+ * Pick the delimiter that splits the first few lines most consistently,
+ * counting only delimiters outside quotes.
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  const lines: string[] = []
+  let current = ""
+  let inQuotes = false
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes
+    if ((char === "\n" || char === "\r") && !inQuotes) {
+      if (current.trim()) lines.push(current)
+      current = ""
+      if (lines.length >= 10) break
+    } else {
+      current += char
+    }
+  }
+  if (current.trim() && lines.length < 10) lines.push(current)
+
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ",", score: 0 }
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((line) => {
+      let count = 0
+      let quoted = false
+      for (const char of line) {
+        if (char === '"') quoted = !quoted
+        else if (char === delimiter && !quoted) count++
+      }
+      return count
+    })
+
+    const headerCount = counts[0] || 0
+    if (headerCount === 0) continue
+
+    // Lines agreeing with the header's column count, weighted by how many columns it yields
+    const consistent = counts.filter((count) => count === headerCount).length
+    const score = consistent * 100 + headerCount
+    if (score > best.score) best = { delimiter, score }
+  }
+
+  return best.delimiter
+}
+
+// Turn parsed records into header-keyed rows, reporting rows with the wrong number of columns
+function buildRows(records: CsvRecord[], errors: CsvParseError[]) {
+  const [headerRecord, ...dataRecords] = records
+  const headers = (headerRecord?.values || []).map((h, index) => h.trim() || `Column ${index + 1}`)
+  const rows: Array<Record<string, string>> = []
+
+  for (const record of dataRecords) {
+    if (record.values.length !== headers.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${headers.length} columns but found ${record.values.length}`,
+      })
+      continue
+    }
+
+    rows.push(
+      headers.reduce(
+        (obj, header, index) => {
+          obj[header] = record.values[index].trim()
+          return obj
+        },
+        {} as Record<string, string>,
+      ),
+    )
+  }
+
+  return { headers, rows }
+}
+
+// Parse CSV text that is already in memory
+export function parseCsv(text: string, delimiter?: CsvDelimiter): CsvParseResult {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const resolvedDelimiter = delimiter || detectDelimiter(input.slice(0, 64 * 1024))
+  const parser = new CsvParser(resolvedDelimiter)
+  const records = [...parser.push(input), ...parser.end()]
+  const errors = [...parser.errors]
+  const { headers, rows } = buildRows(records, errors)
+
+  return { headers, rows, delimiter: resolvedDelimiter, errors: errors.sort((a, b) => a.line - b.line) }
+}
+
+/**
+ * Stream-parse a CSV file without loading it into one string.
+ * TextDecoder strips the UTF-8 BOM and handles multi-byte characters split across chunks.
+ */
+export async function parseCsvFile(file: File, delimiter?: CsvDelimiter): Promise<CsvParseResult> {
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder("utf-8")
+  const records: CsvRecord[] = []
+  let parser: CsvParser | null = null
+  let buffered = ""
+  let resolvedDelimiter: CsvDelimiter = delimiter || ","
+
+  while (true) {
+    const { done, value } = await reader.read()
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+    if (!parser) {
+      // Hold back the start of the file until there is enough to detect the delimiter
+      buffered += text
+      if (!done && buffered.length < 4096) continue
+      resolvedDelimiter = delimiter || detectDelimiter(buffered)
+      parser = new CsvParser(resolvedDelimiter)
+      records.push(...parser.push(buffered))
+    } else {
+      records.push(...parser.push(text))
+    }
+
+    if (done) break
+  }
+
+  records.push(...parser.end())
+  const errors = [...parser.errors]
+  const { headers, rows } = buildRows(records, errors)
+
+  return { headers, rows, delimiter: resolvedDelimiter, errors: errors.sort((a, b) => a.line - b.line) }
+}
+
+// Quote a value only when it contains the delimiter, a quote or a line break
+const formatCsvValue = (value: string, delimiter: CsvDelimiter) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// Serialize rows (e.g. a delivery report) as RFC 4180 CSV with CRLF line endings
+export function formatCsv(
+  headers: string[],
+  rows: Array<Record<string, string | number | undefined>>,
+  delimiter: CsvDelimiter = ",",
+): string {
+  return [headers, ...rows.map((row) => headers.map((header) => String(row[header] ?? "")))]
+    .map((values) => values.map((value) => formatCsvValue(value, delimiter)).join(delimiter))
+    .join("\r\n")
+}
@@ -0,0 +1,47 @@
+import type { EmailCredentials, EmailProvider } from "@/types/certificate"
+import type { EmailProviderAdapter, ProviderCapabilities } from "@/lib/email-providers/types"
+import { RESEND_CAPABILITIES, createResendProvider } from "@/lib/email-providers/resend"
+import { GMAIL_CAPABILITIES, SMTP_CAPABILITIES, createGmailProvider, createSmtpProvider } from "@/lib/email-providers/smtp"
+
+export type { EmailAttachment, EmailProviderAdapter, OutgoingEmail, ProviderCapabilities, SendResult } from "@/lib/email-providers/types"
+export { DEFAULT_RETRY_POLICY, type RetryPolicy } from "@/lib/email-providers/retry"
+
+type ProviderFactory = (credentials?: EmailCredentials) => EmailProviderAdapter
+
+const requireCredentials = (credentials: EmailCredentials | undefined, label: string) => {
+  if (!credentials) {
+    throw new Error(`${label} credentials required but not provided`)
+  }
+  return credentials
+}
+
+// Adding a service (SES, Mailgun, Postmark, ...) means adding its adapter here
+const EMAIL_PROVIDERS: Record<EmailProvider, ProviderFactory> = {
+  resend: () => createResendProvider(),
+  gmail: (credentials) => createGmailProvider(requireCredentials(credentials, "Gmail")),
+  smtp: (credentials) => {
+    const smtpCredentials = requireCredentials(credentials, "SMTP")
+    if (!smtpCredentials.smtp) {
+      throw new Error("SMTP server settings required but not provided")
+    }
+    return createSmtpProvider(smtpCredentials)
+  },
+}
+
+// Limits of each provider, for checks that run without credentials (e.g. a dry run)
+export const PROVIDER_CAPABILITIES: Record<EmailProvider, ProviderCapabilities> = {
+  resend: RESEND_CAPABILITIES,
+  gmail: GMAIL_CAPABILITIES,
+  smtp: SMTP_CAPABILITIES,
+}
+
+export const isEmailProvider = (value: unknown): value is EmailProvider =>
+  typeof value === "string" && Object.hasOwn(EMAIL_PROVIDERS, value)
+
+export function createEmailProvider(provider: EmailProvider, credentials?: EmailCredentials): EmailProviderAdapter {
+  const factory = EMAIL_PROVIDERS[provider]
+  if (!factory) {
+    throw new Error(`Unknown email provider: ${provider}`)
+  }
+  return factory(credentials)
+}
@@ -0,0 +1,87 @@
+import { Resend } from "resend"
+import {
+  MB,
+  getErrorMessage,
+  sendSequentially,
+  type EmailProviderAdapter,
+  type ProviderCapabilities,
+} from "@/lib/email-providers/types"
+
+// Lazy initialization of Resend - only create when needed
+let resend: Resend | null = null
+const getResend = () => {
+  if (!resend && process.env.RESEND_API_KEY) {
+    resend = new Resend(process.env.RESEND_API_KEY)
+  }
+  return resend
+}
+
+const getClient = () => {
+  const client = getResend()
+  if (!client) {
+    throw new Error("Resend API key not configured")
+  }
+  return client
+}
+
+export const RESEND_CAPABILITIES: ProviderCapabilities = {
+  maxAttachmentSize: 40 * MB,
+  // Default Resend API limit is 2 requests per second
+  rateLimit: { messages: 2, perMs: 1000 },
+  // The batch endpoint does not take attachments, so batches go one by one
+  parallelBatch: false,
+}
+
+// Resend HTTP API; the sender address comes from RESEND_FROM_EMAIL
+export function createResendProvider(): EmailProviderAdapter {
+  const fromAddress = process.env.RESEND_FROM_EMAIL || "onboarding@resend.dev"
+
+  const adapter: EmailProviderAdapter = {
+    id: "resend",
+    capabilities: RESEND_CAPABILITIES,
+
+    async send(message) {
+      const client = getResend()
+      if (!client) {
+        return { success: false, error: "Resend API key not configured" }
+      }
+
+      try {
+        const response = await client.emails.send({
+          from: `"${message.fromName}" <${fromAddress}>`,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          attachments: message.attachments.map((attachment) => ({
+            filename: attachment.filename,
+            content: attachment.content.toString("base64"),
+            contentType: attachment.contentType,
+            contentId: attachment.cid,
+          })),
+        })
+
+        if (response.error) {
+          // Rate limiting and server errors are worth retrying; a missing status means the request never got through
+          const status = response.error.statusCode
+          return { success: false, error: response.error.message, transient: status === null || status === 429 || status >= 500 }
+        }
+        return { success: true, messageId: response.data?.id }
+      } catch (error) {
+        return { success: false, error: getErrorMessage(error), transient: true }
+      }
+    },
+
+    sendBatch(messages) {
+      return sendSequentially(adapter, messages)
+    },
+
+    async verify() {
+      const response = await getClient().domains.list()
+      if (response.error) {
+        throw new Error(response.error.message)
+      }
+    },
+  }
+
+  return adapter
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getBackoffDelay, sendBatchWithRetry, sendWithRetry, type RetryPolicy } from "@/lib/email-providers/retry"
+import type { OutgoingEmail, SendResult } from "@/lib/email-providers/types"
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 3000 }
+
+const message = (to: string): OutgoingEmail => ({ to, fromName: "Certificates", subject: "Hi", html: "", attachments: [] })
+
+const transient: SendResult = { success: false, error: "421 Try again later", transient: true }
+const permanent: SendResult = { success: false, error: "550 No such user", transient: false }
+
+describe("getBackoffDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("doubles each step, caps it, and keeps at least half of it", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    expect([1, 2, 3, 4].map((attempt) => getBackoffDelay(attempt, POLICY))).toEqual([500, 1000, 1500, 1500])
+
+    vi.spyOn(Math, "random").mockReturnValue(0.999999)
+    expect(getBackoffDelay(1, POLICY)).toBeCloseTo(1000)
+  })
+})
+
+describe("sendWithRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it("retries transient failures until the send succeeds", async () => {
+    const send = vi
+      .fn<() => Promise<SendResult>>()
+      .mockResolvedValueOnce(transient)
+      .mockResolvedValueOnce(transient)
+      .mockResolvedValueOnce({ success: true, messageId: "m-1" })
+
+    const result = sendWithRetry({ id: "smtp", send }, message("a@example.com"), POLICY)
+    await vi.runAllTimersAsync()
+
+    expect(await result).toEqual({ success: true, messageId: "m-1", attempts: 3 })
+    expect(send).toHaveBeenCalledTimes(3)
+  })
+
+  it("returns a permanent failure after the first attempt", async () => {
+    const send = vi.fn<() => Promise<SendResult>>().mockResolvedValue(permanent)
+
+    expect(await sendWithRetry({ id: "smtp", send }, message("a@example.com"), POLICY)).toEqual({ ...permanent, attempts: 1 })
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it("gives up after the last attempt", async () => {
+    const send = vi.fn<() => Promise<SendResult>>().mockResolvedValue(transient)
+
+    const result = sendWithRetry({ id: "smtp", send }, message("a@example.com"), POLICY)
+    await vi.runAllTimersAsync()
+
+    expect(await result).toEqual({ ...transient, attempts: 3 })
+    expect(send).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe("sendBatchWithRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it("resends only the transient failures, keeping results in message order", async () => {
+    const sendBatch = vi
+      .fn<(messages: OutgoingEmail[]) => Promise<SendResult[]>>()
+      .mockResolvedValueOnce([{ success: true, messageId: "m-1" }, transient, permanent])
+      .mockResolvedValueOnce([{ success: true, messageId: "m-2" }])
+
+    const messages = [message("a@example.com"), message("b@example.com"), message("c@example.com")]
+    const result = sendBatchWithRetry({ id: "smtp", sendBatch }, messages, POLICY)
+    await vi.runAllTimersAsync()
+
+    expect(await result).toEqual([
+      { success: true, messageId: "m-1", attempts: 1 },
+      { success: true, messageId: "m-2", attempts: 2 },
+      { ...permanent, attempts: 1 },
+    ])
+    expect(sendBatch.mock.calls[1][0]).toEqual([messages[1]])
+  })
+
+  it("stops retrying a message after the last attempt", async () => {
+    const sendBatch = vi.fn<(messages: OutgoingEmail[]) => Promise<SendResult[]>>().mockResolvedValue([transient])
+
+    const result = sendBatchWithRetry({ id: "smtp", sendBatch }, [message("a@example.com")], POLICY)
+    await vi.runAllTimersAsync()
+
+    expect(await result).toEqual([{ ...transient, attempts: 3 }])
+    expect(sendBatch).toHaveBeenCalledTimes(3)
+  })
+})
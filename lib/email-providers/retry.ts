@@ -0,0 +1,75 @@
+import type { EmailProviderAdapter, OutgoingEmail, SendResult } from "@/lib/email-providers/types"
+
+/**
+ * Retries for failures the provider marked as transient (SMTP 4xx replies,
+ * dropped connections, HTTP 429/5xx). Permanent failures such as a rejected
+ * address or bad credentials are returned after the first attempt.
+ */
+export interface RetryPolicy {
+  // Total tries per message, including the first
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Exponential backoff with "equal jitter": half the step is fixed, half random, so retries spread out but never fire immediately
+export function getBackoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return step / 2 + Math.random() * (step / 2)
+}
+
+export async function sendWithRetry(
+  adapter: Pick<EmailProviderAdapter, "id" | "send">,
+  message: OutgoingEmail,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<SendResult> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await adapter.send(message)
+    if (result.success || !result.transient || attempt >= policy.maxAttempts) {
+      return { ...result, attempts: attempt }
+    }
+
+    const delay = getBackoffDelay(attempt, policy)
+    console.warn(`[Retry] ${adapter.id} attempt ${attempt} to ${message.to} failed (${result.error}); retrying in ${Math.round(delay)}ms`)
+    await sleep(delay)
+  }
+}
+
+// Send a batch, then resend only its transient failures (as a smaller batch) after each backoff
+export async function sendBatchWithRetry(
+  adapter: Pick<EmailProviderAdapter, "id" | "sendBatch">,
+  messages: OutgoingEmail[],
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<SendResult[]> {
+  const results: SendResult[] = new Array(messages.length)
+  let pending = messages.map((_, index) => index)
+
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    const sent = await adapter.sendBatch(pending.map((index) => messages[index]))
+    const retry: number[] = []
+
+    pending.forEach((index, i) => {
+      results[index] = { ...sent[i], attempts: attempt }
+      if (!sent[i].success && sent[i].transient && attempt < policy.maxAttempts) {
+        retry.push(index)
+      }
+    })
+
+    if (retry.length > 0) {
+      const delay = getBackoffDelay(attempt, policy)
+      console.warn(`[Retry] ${adapter.id} batch attempt ${attempt}: ${retry.length} transient failure(s); retrying in ${Math.round(delay)}ms`)
+      await sleep(delay)
+    }
+    pending = retry
+  }
+
+  return results
+}
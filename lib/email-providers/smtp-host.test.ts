@@ -0,0 +1,76 @@
+import type { LookupAddress } from "dns"
+import { lookup } from "dns/promises"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { resolveSmtpHost } from "@/lib/email-providers/smtp-host"
+
+// IP literals resolve to themselves without DNS; names are answered by the mock
+vi.mock("dns/promises", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("dns/promises")>()
+  return { ...dns, lookup: vi.fn(dns.lookup) }
+})
+
+// The mock is typed by lookup's last overload, but resolveSmtpHost asks for { all: true }, which resolves to a list
+const resolvesTo = (...addresses: string[]) =>
+  vi.mocked(lookup).mockResolvedValueOnce(addresses.map((address) => ({ address, family: 4 })) as unknown as LookupAddress)
+
+const refused = (host: string) => ({
+  error: `The SMTP host ${host} is on a private or local network, which is not allowed. Ask the administrator to add it to SMTP_ALLOWED_HOSTS.`,
+})
+
+describe("resolveSmtpHost", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("connects to public servers by the address they resolved to", async () => {
+    expect(await resolveSmtpHost("8.8.8.8")).toEqual({ address: "8.8.8.8" })
+    expect(await resolveSmtpHost("2001:4860:4860::8888")).toEqual({ address: "2001:4860:4860::8888" })
+
+    resolvesTo("52.96.0.1")
+    expect(await resolveSmtpHost("smtp.office365.com")).toEqual({ address: "52.96.0.1" })
+  })
+
+  it("refuses loopback addresses", async () => {
+    for (const host of ["127.0.0.1", "127.1.2.3", "::1", "0.0.0.0"]) {
+      expect(await resolveSmtpHost(host)).toEqual(refused(host))
+    }
+  })
+
+  it("refuses private networks", async () => {
+    for (const host of ["10.0.0.5", "172.16.0.1", "172.31.255.254", "192.168.1.10", "100.64.0.1", "fd00::1"]) {
+      expect(await resolveSmtpHost(host)).toEqual(refused(host))
+    }
+    expect(await resolveSmtpHost("172.32.0.1")).toEqual({ address: "172.32.0.1" })
+  })
+
+  it("refuses link-local addresses, including cloud metadata endpoints", async () => {
+    for (const host of ["169.254.169.254", "fe80::1"]) {
+      expect(await resolveSmtpHost(host)).toEqual(refused(host))
+    }
+  })
+
+  it("checks IPv4-mapped IPv6 addresses as the IPv4 address they stand for", async () => {
+    expect(await resolveSmtpHost("::ffff:127.0.0.1")).toEqual(refused("::ffff:127.0.0.1"))
+    expect(await resolveSmtpHost("::ffff:10.0.0.5")).toEqual(refused("::ffff:10.0.0.5"))
+  })
+
+  it("refuses a name when any of its addresses is private", async () => {
+    resolvesTo("52.96.0.1", "10.0.0.5")
+    expect(await resolveSmtpHost("mail.example.com")).toEqual(refused("mail.example.com"))
+  })
+
+  it("reports names that do not resolve", async () => {
+    vi.mocked(lookup).mockRejectedValueOnce(Object.assign(new Error("getaddrinfo ENOTFOUND"), { code: "ENOTFOUND" }))
+    expect(await resolveSmtpHost("smtp.example.invalid")).toEqual({
+      error: "Could not find the SMTP host smtp.example.invalid. Please check the host name.",
+    })
+  })
+
+  it("lets hosts listed in SMTP_ALLOWED_HOSTS through, whatever their case", async () => {
+    vi.stubEnv("SMTP_ALLOWED_HOSTS", " localhost, 192.168.1.10 ")
+
+    expect(await resolveSmtpHost("LocalHost")).toEqual({ address: "LocalHost" })
+    expect(await resolveSmtpHost(" 192.168.1.10 ")).toEqual({ address: "192.168.1.10" })
+    expect(await resolveSmtpHost("127.0.0.1")).toEqual(refused("127.0.0.1"))
+  })
+})
@@ -0,0 +1,71 @@
+import { lookup } from "dns/promises"
+import { BlockList, isIP } from "net"
+
+/**
+ * SMTP servers entered by users are only connected to at public addresses, so
+ * the credentials dialog cannot be used to probe the server itself or its
+ * private network. SMTP_ALLOWED_HOSTS (comma-separated host names or IPs,
+ * e.g. "localhost" for a local Mailpit) lets trusted hosts through anyway.
+ */
+
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+const getAllowedHosts = () =>
+  (process.env.SMTP_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as the IPv4 address they stand for
+function isPrivateAddress(address: string) {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], "ipv4")
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")
+}
+
+/**
+ * Resolve an SMTP host to the address to connect to, or the reason it may
+ * not be used. Connecting to the returned address rather than the name keeps
+ * a second DNS answer from pointing the connection somewhere else.
+ */
+export async function resolveSmtpHost(host: string): Promise<{ address: string } | { error: string }> {
+  const name = host.trim().toLowerCase()
+  if (getAllowedHosts().includes(name)) return { address: host.trim() }
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(name, { all: true })
+  } catch {
+    return { error: `Could not find the SMTP host ${host}. Please check the host name.` }
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return {
+      error: `The SMTP host ${host} is on a private or local network, which is not allowed. Ask the administrator to add it to SMTP_ALLOWED_HOSTS.`,
+    }
+  }
+  return { address: addresses[0].address }
+}
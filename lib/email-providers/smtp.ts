@@ -0,0 +1,183 @@
+import nodemailer from "nodemailer"
+import type SMTPTransport from "nodemailer/lib/smtp-transport"
+import type { EmailCredentials } from "@/types/certificate"
+import { getSmtpTransportOptions } from "@/lib/smtp"
+import { resolveSmtpHost } from "@/lib/email-providers/smtp-host"
+import {
+  MB,
+  getErrorMessage,
+  sendSequentially,
+  type EmailProviderAdapter,
+  type OutgoingEmail,
+  type ProviderCapabilities,
+  type SendResult,
+} from "@/lib/email-providers/types"
+
+// Pools still open when the server shuts down
+const activePools = new Set<nodemailer.Transporter>()
+
+if (typeof process !== "undefined") {
+  const shutdownHandler = () => {
+    if (activePools.size > 0) {
+      console.log("[SMTP Provider] Closing pooled transporters...")
+      activePools.forEach((pool) => pool.close())
+      activePools.clear()
+    }
+  }
+
+  process.on("SIGTERM", shutdownHandler)
+  process.on("SIGINT", shutdownHandler)
+}
+
+export const SMTP_CAPABILITIES: ProviderCapabilities = {
+  maxAttachmentSize: 20 * MB,
+  rateLimit: { messages: 5, perMs: 1000 },
+  parallelBatch: true,
+}
+
+export const GMAIL_CAPABILITIES: ProviderCapabilities = { ...SMTP_CAPABILITIES, maxAttachmentSize: 25 * MB }
+
+const VERIFY_TIMEOUTS: SMTPTransport.Options = {
+  connectionTimeout: 10000,
+  greetingTimeout: 5000,
+  socketTimeout: 10000,
+}
+
+// Network codes nodemailer uses for connections that dropped or timed out
+const TRANSIENT_ERROR_CODES = new Set(["ECONNECTION", "ETIMEDOUT", "ESOCKET", "ECONNRESET", "ECONNREFUSED", "EPIPE"])
+
+// 4xx replies (e.g. Gmail's "421 4.7.0 Try again later") are temporary by definition; 5xx ones are final
+function toFailure(error: unknown): SendResult {
+  const err = error as { code?: string; responseCode?: number }
+  const transient =
+    (err.responseCode !== undefined && err.responseCode >= 400 && err.responseCode < 500) ||
+    (err.responseCode === undefined && TRANSIENT_ERROR_CODES.has(err.code || ""))
+
+  return { success: false, error: getErrorMessage(error), transient }
+}
+
+const toMailOptions = (message: OutgoingEmail, fromAddress: string) => ({
+  from: `"${message.fromName}" <${fromAddress}>`,
+  to: message.to,
+  subject: message.subject,
+  html: message.html,
+  attachments: message.attachments.map((attachment) => ({
+    filename: attachment.filename,
+    content: attachment.content,
+    contentType: attachment.contentType,
+    cid: attachment.cid,
+  })),
+})
+
+/**
+ * Adapter for any SMTP server. Single sends open one connection each;
+ * batches share a pool of connections that is closed when the batch ends.
+ */
+export function createSmtpProvider(
+  credentials: EmailCredentials,
+  options: { id?: "smtp" | "gmail"; capabilities?: Partial<ProviderCapabilities> } = {},
+): EmailProviderAdapter {
+  const capabilities: ProviderCapabilities = { ...SMTP_CAPABILITIES, ...options.capabilities }
+
+  // A user-entered server is connected to by the address it was checked at; TLS still checks its name
+  const getTransportOptions = async (): Promise<SMTPTransport.Options> => {
+    const transportOptions = getSmtpTransportOptions(credentials)
+    if (!credentials.smtp) return transportOptions
+
+    const host = transportOptions.host || ""
+    const resolved = await resolveSmtpHost(host)
+    if ("error" in resolved) throw new Error(resolved.error)
+    return resolved.address === host ? transportOptions : { ...transportOptions, host: resolved.address, tls: { servername: host } }
+  }
+
+  const adapter: EmailProviderAdapter = {
+    id: options.id || "smtp",
+    capabilities,
+
+    async send(message) {
+      let transportOptions: SMTPTransport.Options
+      try {
+        transportOptions = await getTransportOptions()
+      } catch (error) {
+        return { success: false, error: getErrorMessage(error), transient: false }
+      }
+
+      const transporter = nodemailer.createTransport(transportOptions)
+      try {
+        const info = await transporter.sendMail(toMailOptions(message, credentials.email))
+        return { success: true, messageId: info.messageId }
+      } catch (error) {
+        return toFailure(error)
+      } finally {
+        transporter.close()
+      }
+    },
+
+    async sendBatch(messages) {
+      if (messages.length <= 1) {
+        return sendSequentially(adapter, messages)
+      }
+
+      let transportOptions: SMTPTransport.Options
+      try {
+        transportOptions = await getTransportOptions()
+      } catch (error) {
+        return messages.map((): SendResult => ({ success: false, error: getErrorMessage(error), transient: false }))
+      }
+
+      const pool = nodemailer.createTransport({
+        ...transportOptions,
+        pool: true, // Enable connection pooling
+        maxConnections: 5, // Max parallel connections (Gmail recommended: 3-5)
+        maxMessages: 100, // Messages per connection before reconnecting
+        rateDelta: capabilities.rateLimit.perMs, // Rate limiting: time window in ms
+        rateLimit: capabilities.rateLimit.messages, // Max emails per rateDelta
+      })
+      activePools.add(pool)
+      console.log(`[SMTP Provider] Pooled transporter created for ${messages.length} messages`)
+
+      try {
+        // The pool queues messages until a connection is free
+        return await Promise.all(
+          messages.map(async (message): Promise<SendResult> => {
+            try {
+              const info = await pool.sendMail(toMailOptions(message, credentials.email))
+              return { success: true, messageId: info.messageId }
+            } catch (error) {
+              return toFailure(error)
+            }
+          }),
+        )
+      } finally {
+        pool.close()
+        activePools.delete(pool)
+      }
+    },
+
+    async verify() {
+      const transporter = nodemailer.createTransport({ ...(await getTransportOptions()), ...VERIFY_TIMEOUTS })
+      try {
+        await transporter.verify()
+      } finally {
+        transporter.close()
+      }
+    },
+  }
+
+  return adapter
+}
+
+// Gmail and Google Workspace for Education (.edu.in) accounts over smtp.gmail.com
+export function createGmailProvider(credentials: EmailCredentials): EmailProviderAdapter {
+  const isGmail = credentials.email.endsWith("@gmail.com")
+  const isEducational = credentials.email.includes(".edu.in")
+
+  if (!isGmail && !isEducational) {
+    throw new Error("Unsupported email domain")
+  }
+
+  return createSmtpProvider(
+    { ...credentials, smtp: undefined },
+    { id: "gmail", capabilities: GMAIL_CAPABILITIES },
+  )
+}
@@ -0,0 +1,79 @@
+import type { EmailProvider } from "@/types/certificate"
+
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
+  // Content-ID for inline images referenced as cid:<id> in the HTML
+  cid?: string
+}
+
+// A fully rendered message; adapters only add their own sender address
+export interface OutgoingEmail {
+  to: string
+  fromName: string
+  subject: string
+  html: string
+  attachments: EmailAttachment[]
+}
+
+export interface SendResult {
+  success: boolean
+  messageId?: string
+  error?: string
+  // The failure may go away on its own (rate limit, dropped connection), so the send is worth retrying
+  transient?: boolean
+  // Tries it took, set by the retry helpers
+  attempts?: number
+}
+
+export interface ProviderCapabilities {
+  // Largest total attachment size per message, in bytes (before base64 encoding)
+  maxAttachmentSize: number
+  // Sustained sending rate the provider tolerates
+  rateLimit: { messages: number; perMs: number }
+  // sendBatch sends in parallel (e.g. over pooled connections) rather than one by one
+  parallelBatch: boolean
+}
+
+/**
+ * One email backend (Resend, Gmail, an SMTP server, ...). The sending loop
+ * only talks to this interface, so a new service needs an adapter and a
+ * registry entry, nothing else.
+ */
+export interface EmailProviderAdapter {
+  id: EmailProvider
+  capabilities: ProviderCapabilities
+  send(message: OutgoingEmail): Promise<SendResult>
+  // Results are in the same order as the messages
+  sendBatch(messages: OutgoingEmail[]): Promise<SendResult[]>
+  // Throws with a user-facing message when the account or server is unusable
+  verify(): Promise<void>
+}
+
+export const MB = 1024 * 1024
+
+export const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Unknown error")
+
+// Send messages one at a time, spaced to respect the provider's rate limit
+export async function sendSequentially(
+  adapter: Pick<EmailProviderAdapter, "send" | "capabilities">,
+  messages: OutgoingEmail[],
+  minDelayMs = 0,
+  onResult?: (result: SendResult, index: number) => void | Promise<void>,
+): Promise<SendResult[]> {
+  const { messages: count, perMs } = adapter.capabilities.rateLimit
+  const delay = Math.max(minDelayMs, Math.ceil(perMs / count))
+  const results: SendResult[] = []
+
+  for (let i = 0; i < messages.length; i++) {
+    const result = await adapter.send(messages[i])
+    results.push(result)
+    await onResult?.(result, i)
+    if (i < messages.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,187 @@
+import type { EmailTemplate } from "@/types/certificate"
+import { normalizeLabel } from "@/lib/field-labels"
+
+// Inline logo reference; the sender attaches public/klh.png when a template uses it
+export const LOGO_CID = "klh-logo"
+
+// Merge values every recipient has, in addition to their CSV columns
+export const BUILT_IN_MERGE_TAGS = ["Name", "Email", "FileName"]
+
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplate = {
+  senderName: "KLH University - Certificate Team",
+  subject: "🎓 Congratulations {{Name}}! Your Certificate is Ready",
+  html: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+          <!-- Header with Logo -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #21808D 0%, #1a6570 100%); padding: 40px 30px; text-align: center;">
+              <img src="cid:${LOGO_CID}" alt="KLH University" style="max-width: 120px; height: auto; margin-bottom: 20px;" />
+              <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 600;">Congratulations!</h1>
+            </td>
+          </tr>
+
+          <!-- Main Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="color: #1a1a1a; font-size: 18px; margin: 0 0 20px; line-height: 1.6;">
+                Dear <strong>{{Name}}</strong>,
+              </p>
+
+              <p style="color: #333333; font-size: 16px; margin: 0 0 20px; line-height: 1.6;">
+                We are delighted to inform you that your certificate has been successfully generated and is attached to this email.
+              </p>
+
+              <div style="background-color: #f0f9fa; border-left: 4px solid #21808D; padding: 20px; margin: 25px 0; border-radius: 4px;">
+                <p style="color: #1a6570; font-size: 15px; margin: 0; line-height: 1.6;">
+                  <strong>📎 Your certificate is attached as:</strong><br/>
+                  <span style="font-family: monospace; color: #333;">{{FileName}}</span>
+                </p>
+              </div>
+
+              <p style="color: #333333; font-size: 16px; margin: 0 0 20px; line-height: 1.6;">
+                This certificate is a testament to your hard work, dedication, and the knowledge you've gained. We are incredibly proud of your achievement and hope this milestone serves as a stepping stone to greater success in your future endeavors.
+              </p>
+
+              <!-- Tips Section -->
+              <div style="background-color: #fffbf0; border: 1px solid #ffd700; padding: 20px; margin: 25px 0; border-radius: 8px;">
+                <h3 style="color: #1a1a1a; margin: 0 0 15px; font-size: 16px;">💡 Important Tips:</h3>
+                <ul style="color: #555; font-size: 14px; margin: 0; padding-left: 20px; line-height: 1.8;">
+                  <li>Download and save your certificate immediately</li>
+                  <li>Keep both digital and printed copies for your records</li>
+                  <li>You can print this on high-quality paper for framing</li>
+                  <li>Share your achievement on LinkedIn to enhance your profile</li>
+                </ul>
+              </div>
+
+              <p style="color: #333333; font-size: 16px; margin: 0 0 10px; line-height: 1.6;">
+                <strong>Once again, congratulations on this well-deserved recognition!</strong>
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 30px; text-align: center; border-top: 1px solid #e0e0e0;">
+              <p style="color: #666666; font-size: 14px; margin: 0 0 10px; line-height: 1.6;">
+                <strong>Best regards,</strong><br/>
+                Certificate Team<br/>
+                KLH University
+              </p>
+              <p style="color: #999999; font-size: 12px; margin: 15px 0 0; line-height: 1.5;">
+                This is an automated email. Please do not reply to this message.<br/>
+                If you need assistance, please contact your program coordinator.
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`,
+}
+
+export interface RenderedEmail {
+  senderName: string
+  subject: string
+  html: string
+}
+
+const MERGE_TAG_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+
+// Case-insensitive column lookup ("email", "Email", "EMAIL")
+const findColumnValue = (row: Record<string, string>, column: string) => {
+  const key = Object.keys(row).find((candidate) => candidate.toLowerCase() === column)
+  return key ? row[key] : ""
+}
+
+export const getRecipientEmail = (row: Record<string, string>) => findColumnValue(row, "email").trim()
+
+export const getRecipientName = (row: Record<string, string>) =>
+  `${findColumnValue(row, "firstname")} ${findColumnValue(row, "lastname")}`.trim() || "Recipient"
+
+// Merge values for one recipient: the built-in tags plus every column of their CSV row
+export function getMergeValues(recipient: {
+  email: string
+  name: string
+  fileName: string
+  data?: Record<string, string>
+}): Record<string, string> {
+  return {
+    Name: recipient.name,
+    Email: recipient.email,
+    FileName: recipient.fileName,
+    ...recipient.data,
+  }
+}
+
+// Tags match exactly first, then ignoring case and punctuation ({{first_name}} = FirstName)
+function lookupMergeValue(values: Record<string, string>, tag: string): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(values, tag)) return values[tag]
+  const normalized = normalizeLabel(tag)
+  const key = Object.keys(values).find((candidate) => normalizeLabel(candidate) === normalized)
+  return key === undefined ? undefined : values[key]
+}
+
+/**
+ * Replace {{Tag}} placeholders. Values are HTML-escaped for the body; unknown
+ * tags render as empty text so a typo never leaks braces into a sent email.
+ */
+export function renderMergeTags(text: string, values: Record<string, string>, html = false): string {
+  return text.replace(MERGE_TAG_PATTERN, (_, tag: string) => {
+    const value = lookupMergeValue(values, tag) ?? ""
+    return html ? escapeHtml(value) : value
+  })
+}
+
+// Tags in the text that have no value (or an empty one) for this recipient
+export const findEmptyMergeTags = (text: string, values: Record<string, string>) =>
+  Array.from(text.matchAll(MERGE_TAG_PATTERN), (match) => match[1]).filter((tag) => !lookupMergeValue(values, tag))
+
+export function renderEmailTemplate(template: EmailTemplate, values: Record<string, string>): RenderedEmail {
+  return {
+    // Header values must stay on one line
+    senderName: renderMergeTags(template.senderName, values).replace(/[\r\n"]+/g, " ").trim(),
+    subject: renderMergeTags(template.subject, values).replace(/[\r\n]+/g, " ").trim(),
+    html: renderMergeTags(template.html, values, true),
+  }
+}
+
+// Tags used anywhere in the template that no recipient column or built-in provides
+export function findUnknownMergeTags(template: EmailTemplate, columns: string[]): string[] {
+  const known = [...BUILT_IN_MERGE_TAGS, ...columns]
+  const unknown = new Set<string>()
+
+  for (const text of [template.senderName, template.subject, template.html]) {
+    for (const match of text.matchAll(MERGE_TAG_PATTERN)) {
+      const tag = match[1]
+      if (!known.some((column) => column === tag || normalizeLabel(column) === normalizeLabel(tag))) {
+        unknown.add(tag)
+      }
+    }
+  }
+
+  return [...unknown]
+}
+
+export const usesLogo = (html: string) => html.includes(`cid:${LOGO_CID}`)
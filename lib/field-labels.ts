@@ -0,0 +1,67 @@
+import type { CertificateField } from "@/types/certificate"
+
+// Suggested labels offered in the field editor; any other label is allowed
+export const FIELD_LABEL_PRESETS = [
+  { label: "Name", demo: "John Smith", aliases: ["fullname", "studentname", "participantname"] },
+  { label: "Date", demo: "", aliases: ["issuedate", "completiondate"] },
+  { label: "Course", demo: "Certificate Course", aliases: ["coursename", "program", "programme"] },
+  { label: "Roll Number", demo: "21CS1001", aliases: ["rollno", "regno", "registrationnumber", "studentid"] },
+  { label: "Grade", demo: "A+", aliases: ["score", "result"] },
+  { label: "Event", demo: "Annual Tech Fest", aliases: ["eventname"] },
+  { label: "Organizer", demo: "KLH University", aliases: ["organiser", "organizedby", "organisedby"] },
+]
+
+// Compare labels and CSV headers ignoring case, spaces and punctuation ("Roll Number" = "roll_number")
+export const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+const findPreset = (label: string) => {
+  const normalized = normalizeLabel(label)
+  return FIELD_LABEL_PRESETS.find(
+    (preset) => normalizeLabel(preset.label) === normalized || preset.aliases.includes(normalized),
+  )
+}
+
+// The preset a field label stands for ("Course" for "Programme"), if any
+export const getPresetLabel = (label: string) => findPreset(label)?.label
+
+// Sample value shown for a field on the configuration preview
+export function getDemoText(label: string): string {
+  const preset = findPreset(label)
+  if (preset?.label === "Date") return new Date().toLocaleDateString()
+  if (preset) return preset.demo
+  return label.trim() || "Demo Text"
+}
+
+/**
+ * Guess the CSV column for each field from its label. Name fields prefer a
+ * FirstName + LastName pair (stored as "First|Last"); everything else matches
+ * the label or one of its preset aliases.
+ */
+export function autoMapFields(fields: CertificateField[], headers: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {}
+  const findHeader = (...candidates: string[]) => headers.find((h) => candidates.includes(normalizeLabel(h)))
+
+  fields.forEach((field) => {
+    // QR codes build their payload from the row instead of reading one column
+    if (field.type === "qr") return
+
+    const preset = findPreset(field.name)
+    const candidates = [normalizeLabel(field.name), ...(preset ? [normalizeLabel(preset.label), ...preset.aliases] : [])]
+
+    if (preset?.label === "Name") {
+      const firstNameCol = findHeader("firstname")
+      const lastNameCol = findHeader("lastname")
+      if (firstNameCol && lastNameCol) {
+        mapping[field.id] = `${firstNameCol}|${lastNameCol}`
+        return
+      }
+    }
+
+    const matchingHeader = findHeader(...candidates)
+    if (matchingHeader) {
+      mapping[field.id] = matchingHeader
+    }
+  })
+
+  return mapping
+}
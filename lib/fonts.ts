@@ -26,6 +26,15 @@ export const CERTIFICATE_FONTS = [
   { name: "Arial", family: "Arial", category: "Sans-Serif", weights: [400, 700] },
 ]
 
+// Fonts installed on the system rather than served by Google Fonts. PDFs embed an open
+// look-alike from Google Fonts instead (Arimo and Gelasio share Arial's and Georgia's metrics)
+export const SYSTEM_FONT_SUBSTITUTES: Record<string, string> = {
+  Garamond: "EB Garamond",
+  Georgia: "Gelasio",
+  Helvetica: "Arimo",
+  Arial: "Arimo",
+}
+
 export const FONT_WEIGHTS = {
   300: "Light",
   400: "Regular",
@@ -43,3 +52,7 @@ export const getGoogleFontsUrl = () => {
   }).join("&family=")
   return `https://fonts.googleapis.com/css2?family=${fontFamilies}&display=swap`
 }
+
+// Same-origin URL for a font's TrueType file (proxied from Google Fonts for PDF embedding)
+export const getFontFileUrl = (family: string, weight: number) =>
+  `/api/fonts?family=${encodeURIComponent(family)}&weight=${weight}`
@@ -0,0 +1,98 @@
+import os from "os"
+import path from "path"
+import { mkdtemp, rm } from "fs/promises"
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+
+// Keys live under DATA_DIR, which is read when the module loads
+let dataDir: string
+let idempotency: typeof import("@/lib/idempotency")
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(os.tmpdir(), "idempotency-"))
+  vi.stubEnv("DATA_DIR", dataDir)
+  vi.stubEnv("SEND_IDEMPOTENCY_WINDOW_HOURS", "24")
+  vi.resetModules()
+  idempotency = await import("@/lib/idempotency")
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+const request = (key?: string) =>
+  new Request("http://localhost/api/send-jobs", { method: "POST", headers: key ? { "Idempotency-Key": key } : {} })
+
+describe("readIdempotencyKey", () => {
+  it("prefers the header over the body field", () => {
+    expect(idempotency.readIdempotencyKey(request(" header-key "), { idempotencyKey: "body-key" })).toEqual({ key: "header-key" })
+    expect(idempotency.readIdempotencyKey(request(), { idempotencyKey: "body-key" })).toEqual({ key: "body-key" })
+  })
+
+  it("ignores missing, blank and non-text keys", () => {
+    expect(idempotency.readIdempotencyKey(request(), null)).toEqual({})
+    expect(idempotency.readIdempotencyKey(request(), ["idempotencyKey"])).toEqual({})
+    expect(idempotency.readIdempotencyKey(request(), { idempotencyKey: "   " })).toEqual({})
+    expect(idempotency.readIdempotencyKey(request(), { idempotencyKey: 42 })).toEqual({})
+  })
+
+  it("refuses keys that are too long", () => {
+    expect(idempotency.readIdempotencyKey(request("k".repeat(256)), {})).toEqual({
+      error: "Idempotency key is longer than 255 characters",
+    })
+  })
+})
+
+describe("recipientKey", () => {
+  it("matches the same address whatever its case or padding", () => {
+    expect(idempotency.recipientKey(" Jane@Example.com ", "abc")).toBe(idempotency.recipientKey("jane@example.com", "abc"))
+    expect(idempotency.recipientKey("jane@example.com", "abc")).not.toBe(idempotency.recipientKey("jane@example.com", "def"))
+  })
+})
+
+describe("claimIdempotencyKey", () => {
+  it("lets only the first claim win until the key is released", async () => {
+    expect(await idempotency.claimIdempotencyKey("jobs", "double-click", { jobId: "job-1" })).toBeNull()
+
+    const holder = await idempotency.claimIdempotencyKey("jobs", "double-click", { jobId: "job-2" })
+    expect(holder).toMatchObject({ jobId: "job-1" })
+
+    await idempotency.releaseIdempotencyKey("jobs", "double-click")
+    expect(await idempotency.claimIdempotencyKey("jobs", "double-click", { jobId: "job-2" })).toBeNull()
+  })
+
+  it("reports that the email went out once the holder records it", async () => {
+    const key = idempotency.recipientKey("jane@example.com", "hash-1")
+    await idempotency.claimIdempotencyKey("recipients", key, { jobId: "job-1", index: 0 })
+    await idempotency.updateIdempotencyKey("recipients", key, {
+      jobId: "job-1",
+      index: 0,
+      claimedAt: new Date().toISOString(),
+      sentAt: new Date().toISOString(),
+      messageId: "m-1",
+    })
+
+    expect(await idempotency.claimIdempotencyKey("recipients", key, { jobId: "job-2", index: 3 })).toMatchObject({
+      jobId: "job-1",
+      messageId: "m-1",
+    })
+  })
+
+  it("lets a claim be taken over once it has expired, and prunes expired claims", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"))
+    await idempotency.claimIdempotencyKey("jobs", "old-request", { jobId: "job-1" })
+
+    vi.setSystemTime(new Date(Date.now() + idempotency.IDEMPOTENCY_WINDOW_MS + 1000))
+    expect(await idempotency.claimIdempotencyKey("jobs", "old-request", { jobId: "job-2" })).toBeNull()
+    expect(await idempotency.claimIdempotencyKey("jobs", "old-request", { jobId: "job-3" })).toMatchObject({ jobId: "job-2" })
+
+    vi.setSystemTime(new Date(Date.now() + idempotency.IDEMPOTENCY_WINDOW_MS + 1000))
+    expect(await idempotency.pruneIdempotencyKeys()).toBeGreaterThan(0)
+    expect(await idempotency.claimIdempotencyKey("jobs", "old-request", { jobId: "job-4" })).toBeNull()
+  })
+})
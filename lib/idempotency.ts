@@ -0,0 +1,138 @@
+import path from "path"
+import { createHash } from "crypto"
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises"
+import { isRecord } from "@/lib/utils"
+
+/**
+ * Idempotency keys that stop the same certificate being mailed twice. A job
+ * key makes a repeated request (double click, network retry) get the
+ * existing job back; a recipient key, made from the address and the
+ * certificate's content hash, makes any other job skip a recipient who
+ * already got that certificate. Keys are claimed by exclusive file creation
+ * under DATA_DIR, so of two requests racing for a key only one wins.
+ * Claims expire after SEND_IDEMPOTENCY_WINDOW_HOURS (default 24, 0 turns
+ * the protection off).
+ */
+
+const KEYS_DIR = path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "idempotency")
+
+const DEFAULT_WINDOW_HOURS = 24
+
+const windowHours = Number(process.env.SEND_IDEMPOTENCY_WINDOW_HOURS ?? DEFAULT_WINDOW_HOURS)
+export const IDEMPOTENCY_WINDOW_MS =
+  (Number.isFinite(windowHours) && windowHours >= 0 ? windowHours : DEFAULT_WINDOW_HOURS) * 60 * 60 * 1000
+
+export type IdempotencyScope = "jobs" | "recipients"
+
+export interface IdempotencyRecord {
+  jobId: string
+  // Recipient index in the job, for recipient keys
+  index?: number
+  claimedAt: string
+  // Set once the email has gone out
+  sentAt?: string
+  messageId?: string
+}
+
+// Keys are hashed for the file name: they contain email addresses and arbitrary client strings
+const keyFile = (scope: IdempotencyScope, key: string) =>
+  path.join(KEYS_DIR, scope, `${createHash("sha256").update(key).digest("hex")}.json`)
+
+export const hashCertificate = (certificate: Buffer) => createHash("sha256").update(certificate).digest("hex")
+
+// The same address and certificate, whichever job they are in
+export const recipientKey = (email: string, certificateHash: string) => `${email.trim().toLowerCase()}:${certificateHash}`
+
+// Longer keys are refused rather than silently truncated into a collision
+const MAX_KEY_LENGTH = 255
+
+// From the Idempotency-Key header, or an "idempotencyKey" body field for clients that cannot set headers
+export function readIdempotencyKey(request: Request, body: unknown): { key?: string } | { error: string } {
+  const key = request.headers.get("Idempotency-Key") ?? (isRecord(body) ? body.idempotencyKey : undefined)
+  if (typeof key !== "string" || !key.trim()) return {}
+  if (key.length > MAX_KEY_LENGTH) return { error: `Idempotency key is longer than ${MAX_KEY_LENGTH} characters` }
+  return { key: key.trim() }
+}
+
+const isExpired = (record: IdempotencyRecord) =>
+  Date.now() - Date.parse(record.sentAt || record.claimedAt) > IDEMPOTENCY_WINDOW_MS
+
+async function readRecord(file: string): Promise<IdempotencyRecord | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    // Still being written by whoever claimed it, or left half-written by a crash; it ages out like any other claim
+    const { mtime } = await stat(file)
+    return { jobId: "", claimedAt: mtime.toISOString() }
+  }
+}
+
+/**
+ * Claim a key. Returns null when the claim succeeded (or the protection is
+ * off), otherwise the record of whoever holds the key within the window.
+ */
+export async function claimIdempotencyKey(
+  scope: IdempotencyScope,
+  key: string,
+  record: Omit<IdempotencyRecord, "claimedAt">
+): Promise<IdempotencyRecord | null> {
+  if (IDEMPOTENCY_WINDOW_MS === 0) return null
+
+  const file = keyFile(scope, key)
+  await mkdir(path.dirname(file), { recursive: true })
+  const claim = JSON.stringify({ ...record, claimedAt: new Date().toISOString() })
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      await writeFile(file, claim, { flag: "wx" })
+      return null
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+    }
+
+    const holder = await readRecord(file)
+    if (holder && !isExpired(holder)) return holder
+    // Expired: remove it and claim again; whoever creates the file first wins
+    if (holder) await unlink(file).catch(() => {})
+  }
+
+  throw new Error("Could not claim idempotency key")
+}
+
+// Update a claim this job holds, e.g. to record that the email went out
+export async function updateIdempotencyKey(scope: IdempotencyScope, key: string, record: IdempotencyRecord) {
+  if (IDEMPOTENCY_WINDOW_MS === 0) return
+
+  const file = keyFile(scope, key)
+  await writeFile(`${file}.tmp`, JSON.stringify(record))
+  await rename(`${file}.tmp`, file)
+}
+
+// Give a key back, e.g. when the send failed and may be tried again
+export async function releaseIdempotencyKey(scope: IdempotencyScope, key: string) {
+  await unlink(keyFile(scope, key)).catch((error: NodeJS.ErrnoException) => {
+    if (error.code !== "ENOENT") throw error
+  })
+}
+
+// Delete expired claims; they no longer block anything, this only frees the disk space
+export async function pruneIdempotencyKeys() {
+  let pruned = 0
+
+  for (const scope of ["jobs", "recipients"] satisfies IdempotencyScope[]) {
+    const dir = path.join(KEYS_DIR, scope)
+    const files = await readdir(dir).catch(() => [] as string[])
+
+    for (const name of files) {
+      const file = path.join(dir, name)
+      const record = name.endsWith(".json") ? await readRecord(file).catch(() => null) : null
+      if (record && isExpired(record)) {
+        await unlink(file).catch(() => {})
+        pruned++
+      }
+    }
+  }
+
+  return pruned
+}
@@ -0,0 +1,143 @@
+import path from "path"
+import {
+  createHash,
+  createPrivateKey,
+  generateKeyPairSync,
+  sign,
+  type JsonWebKey as NodeJsonWebKey,
+  type KeyObject,
+} from "crypto"
+import { mkdir, readFile, writeFile } from "fs/promises"
+import { MAX_REGISTRATION_BATCH, normalizeCertificateId } from "@/lib/certificate-id"
+import { isRecord } from "@/lib/utils"
+import type { FileToSign, IssuerKeyInfo, SignaturePayload, SignedFile } from "@/types/certificate"
+
+/**
+ * The issuer's ECDSA P-256 key pair, which signs certificate files. It is
+ * generated on first use and kept in DATA_DIR (default .data/) as
+ * issuer-key.json, readable by the server only. Back it up: a new key cannot
+ * vouch for files signed with the old one.
+ */
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+const KEY_FILE = path.join(DATA_DIR, "issuer-key.json")
+
+// Shown to verifiers as the signer
+export const ISSUER_NAME = process.env.ISSUER_NAME || "CertificateHash"
+
+const MAX_FILE_NAME_LENGTH = 255
+const HASH_PATTERN = /^[0-9a-f]{64}$/
+
+interface IssuerKey {
+  privateKey: KeyObject
+  info: IssuerKeyInfo
+}
+
+// RFC 7638: sha256 of the required members in lexicographic order
+const getThumbprint = ({ crv, kty, x, y }: JsonWebKey) =>
+  createHash("sha256").update(JSON.stringify({ crv, kty, x, y })).digest("base64url")
+
+const readKeyFile = async (): Promise<JsonWebKey | null> => {
+  try {
+    return JSON.parse(await readFile(KEY_FILE, "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+async function loadOrCreateKey(): Promise<IssuerKey> {
+  let jwk = await readKeyFile()
+
+  if (!jwk) {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" })
+    await mkdir(DATA_DIR, { recursive: true })
+    try {
+      await writeFile(KEY_FILE, JSON.stringify(privateKey.export({ format: "jwk" })), { flag: "wx", mode: 0o600 })
+      console.log("[Issuer Key] Generated a new signing key in", KEY_FILE)
+    } catch (error) {
+      // Another request created it first; everyone signs with that one
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+    }
+    jwk = await readKeyFile()
+    // Only possible if the file is deleted between creating and reading it
+    if (!jwk) throw new Error(`Issuer key ${KEY_FILE} disappeared after it was created`)
+  }
+
+  const { kty, crv, x, y } = jwk
+  const publicKey = { kty, crv, x, y }
+  return {
+    privateKey: createPrivateKey({ key: jwk as NodeJsonWebKey, format: "jwk" }),
+    info: { name: ISSUER_NAME, keyId: getThumbprint(publicKey), publicKey },
+  }
+}
+
+let issuerKey: Promise<IssuerKey> | null = null
+
+const getIssuerKey = () => {
+  issuerKey ??= loadOrCreateKey().catch((error) => {
+    // Try again on the next request rather than caching the failure
+    issuerKey = null
+    throw error
+  })
+  return issuerKey
+}
+
+export const getIssuerKeyInfo = async (): Promise<IssuerKeyInfo> => (await getIssuerKey()).info
+
+// Read { certificates: [{ fileName, contentHash, certificateId? }] } from a signing request
+export function parseFilesToSign(body: unknown): { files: FileToSign[] } | { error: string } {
+  const certificates = isRecord(body) ? body.certificates : undefined
+  if (!Array.isArray(certificates) || certificates.length === 0) {
+    return { error: "No certificates provided" }
+  }
+  if (certificates.length > MAX_REGISTRATION_BATCH) {
+    return { error: `At most ${MAX_REGISTRATION_BATCH} certificates can be signed at once` }
+  }
+
+  // Only known fields are signed
+  const files: FileToSign[] = []
+  for (const file of certificates) {
+    const { fileName, contentHash, certificateId } = isRecord(file) ? file : {}
+    if (typeof fileName !== "string" || !fileName.trim() || fileName.length > MAX_FILE_NAME_LENGTH) {
+      return { error: "Every certificate needs a file name" }
+    }
+    if (typeof contentHash !== "string" || !HASH_PATTERN.test(contentHash)) {
+      return { error: `${fileName} has an invalid content hash` }
+    }
+    if (certificateId !== undefined && (typeof certificateId !== "string" || normalizeCertificateId(certificateId) !== certificateId)) {
+      return { error: `${fileName} has an invalid certificate ID` }
+    }
+    files.push({ fileName, contentHash, ...(certificateId && { certificateId }) })
+  }
+  return { files }
+}
+
+/**
+ * Sign each file's hash and details. The payload is kept as the exact text
+ * that was signed, so verifiers never have to re-serialise JSON identically.
+ */
+export async function signCertificateFiles(files: FileToSign[]): Promise<{ issuer: IssuerKeyInfo; signatures: SignedFile[] }> {
+  const { privateKey, info } = await getIssuerKey()
+  const signedAt = new Date().toISOString()
+
+  const signatures = files.map((file) => {
+    const payload: SignaturePayload = { ...file, issuer: info.name, keyId: info.keyId, signedAt }
+    const text = JSON.stringify(payload)
+    // Web Crypto expects raw r||s rather than Node's default DER encoding
+    const signature = sign("sha256", Buffer.from(text), { key: privateKey, dsaEncoding: "ieee-p1363" })
+    return { fileName: file.fileName, payload: text, signature: signature.toString("base64url") }
+  })
+
+  console.log(`[Issuer Key] Signed ${files.length} certificates`)
+  return { issuer: info, signatures }
+}
+
+// Compact JWS (RFC 7515) over the claims, with the public key in the header so wallets can check it
+export async function signJsonWebToken(claims: object): Promise<string> {
+  const { privateKey, info } = await getIssuerKey()
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url")
+  const input = `${encode({ alg: "ES256", typ: "JWT", kid: info.keyId, jwk: info.publicKey })}.${encode(claims)}`
+  const signature = sign("sha256", Buffer.from(input), { key: privateKey, dsaEncoding: "ieee-p1363" })
+  return `${input}.${signature.toString("base64url")}`
+}
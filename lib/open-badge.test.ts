@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { parseBadgesToIssue } from "@/lib/open-badge"
+
+const badge = (overrides: Record<string, unknown> = {}) => ({
+  holderName: "Jane Doe",
+  achievementName: "Intro to Testing",
+  issuedAt: "2026-06-01T10:00:00Z",
+  ...overrides,
+})
+
+describe("parseBadgesToIssue", () => {
+  it("reads badges, keeping only known fields", () => {
+    expect(
+      parseBadgesToIssue({
+        badges: [
+          badge({ holderName: " Jane Doe ", email: "jane@example.com", certificateId: "7K3M-9QXP-2B4D", contentHash: "abc" }),
+          badge(),
+        ],
+      })
+    ).toEqual({
+      badges: [
+        {
+          holderName: "Jane Doe",
+          achievementName: "Intro to Testing",
+          issuedAt: "2026-06-01T10:00:00.000Z",
+          email: "jane@example.com",
+          certificateId: "7K3M-9QXP-2B4D",
+        },
+        { holderName: "Jane Doe", achievementName: "Intro to Testing", issuedAt: "2026-06-01T10:00:00.000Z" },
+      ],
+    })
+  })
+
+  it("rejects bodies without badges or with too many", () => {
+    expect(parseBadgesToIssue(null)).toEqual({ error: "No badges provided" })
+    expect(parseBadgesToIssue({ badges: [] })).toEqual({ error: "No badges provided" })
+    expect(parseBadgesToIssue({ badges: badge() })).toEqual({ error: "No badges provided" })
+    expect(parseBadgesToIssue({ badges: Array.from({ length: 1001 }, () => badge()) })).toEqual({
+      error: "At most 1000 badges can be issued at once",
+    })
+  })
+
+  it("rejects badges without a holder or achievement", () => {
+    expect(parseBadgesToIssue({ badges: ["Jane Doe"] })).toEqual({ error: "Every badge needs the holder's name" })
+    expect(parseBadgesToIssue({ badges: [badge({ holderName: "  " })] })).toEqual({
+      error: "Every badge needs the holder's name",
+    })
+    expect(parseBadgesToIssue({ badges: [badge({ achievementName: 42 })] })).toEqual({
+      error: "Jane Doe's badge needs a course or event name",
+    })
+  })
+
+  it("rejects invalid email addresses, certificate IDs and issue times", () => {
+    expect(parseBadgesToIssue({ badges: [badge({ email: "jane@" })] })).toEqual({
+      error: "Jane Doe's badge has an invalid email address",
+    })
+    expect(parseBadgesToIssue({ badges: [badge({ certificateId: "7k3m-9qxp-2b4d" })] })).toEqual({
+      error: "Jane Doe's badge has an invalid certificate ID",
+    })
+    expect(parseBadgesToIssue({ badges: [badge({ issuedAt: "yesterday" })] })).toEqual({
+      error: "Jane Doe's badge has an invalid issue time",
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { createHash, randomBytes, randomUUID } from "crypto"
+import { getVerificationPath, MAX_REGISTRATION_BATCH, normalizeCertificateId } from "@/lib/certificate-id"
+import { ISSUER_NAME, signJsonWebToken } from "@/lib/issuer-key"
+import { isValidSenderEmail } from "@/lib/smtp"
+import { isRecord } from "@/lib/utils"
+import type { BadgeToIssue, OpenBadge } from "@/types/certificate"
+
+/**
+ * Open Badges 3.0 credentials (W3C Verifiable Credentials in JSON-LD), one
+ * per certificate, signed as VC-JWTs with the issuer key so wallets and LMSs
+ * can import and check them. The issuer and achievement are identified by
+ * URLs on the app's own origin.
+ */
+
+const CONTEXT = ["https://www.w3.org/ns/credentials/v2", "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json"]
+// RFC 4122 namespace for name-based UUIDs of URLs
+const URL_NAMESPACE = Buffer.from("6ba7b8119dad11d180b400c04fd430c8", "hex")
+const MAX_TEXT_LENGTH = 300
+
+// Version 5 UUID, so the same course always gets the same achievement ID
+function getNameBasedUuid(name: string) {
+  const bytes = createHash("sha1").update(URL_NAMESPACE).update(name).digest().subarray(0, 16)
+  bytes[6] = (bytes[6] & 0x0f) | 0x50
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = bytes.toString("hex")
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+// Emails are only given hashed, as Open Badges recommends, so a badge does not publish its holder's address
+function getEmailIdentifier(email: string) {
+  const salt = randomBytes(8).toString("hex")
+  const hash = createHash("sha256").update(email.trim().toLowerCase() + salt).digest("hex")
+  return { type: "IdentityObject", identityType: "emailAddress", hashed: true, identityHash: `sha256$${hash}`, salt }
+}
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= MAX_TEXT_LENGTH
+
+// Read { badges: [{ holderName, email?, achievementName, certificateId?, issuedAt }] } from a request
+export function parseBadgesToIssue(body: unknown): { badges: BadgeToIssue[] } | { error: string } {
+  const badges = isRecord(body) ? body.badges : undefined
+  if (!Array.isArray(badges) || badges.length === 0) {
+    return { error: "No badges provided" }
+  }
+  if (badges.length > MAX_REGISTRATION_BATCH) {
+    return { error: `At most ${MAX_REGISTRATION_BATCH} badges can be issued at once` }
+  }
+
+  const parsed: BadgeToIssue[] = []
+  for (const badge of badges) {
+    const { holderName, email, achievementName, certificateId, issuedAt } = isRecord(badge) ? badge : {}
+    if (!isText(holderName)) {
+      return { error: "Every badge needs the holder's name" }
+    }
+    if (!isText(achievementName)) {
+      return { error: `${holderName}'s badge needs a course or event name` }
+    }
+    if (email !== undefined && (typeof email !== "string" || !isValidSenderEmail(email))) {
+      return { error: `${holderName}'s badge has an invalid email address` }
+    }
+    if (certificateId !== undefined && (typeof certificateId !== "string" || normalizeCertificateId(certificateId) !== certificateId)) {
+      return { error: `${holderName}'s badge has an invalid certificate ID` }
+    }
+    if (typeof issuedAt !== "string" || Number.isNaN(Date.parse(issuedAt))) {
+      return { error: `${holderName}'s badge has an invalid issue time` }
+    }
+
+    parsed.push({
+      holderName: holderName.trim(),
+      achievementName: achievementName.trim(),
+      issuedAt: new Date(issuedAt).toISOString(),
+      ...(email && { email }),
+      ...(certificateId && { certificateId }),
+    })
+  }
+  return { badges: parsed }
+}
+
+function buildCredential(badge: BadgeToIssue, origin: string) {
+  const achievementName = badge.achievementName
+  return {
+    "@context": CONTEXT,
+    // A registered certificate's badge points at its verification page
+    id: badge.certificateId ? `${origin}${getVerificationPath(badge.certificateId)}` : `urn:uuid:${randomUUID()}`,
+    type: ["VerifiableCredential", "OpenBadgeCredential"],
+    name: achievementName,
+    issuer: { id: origin, type: ["Profile"], name: ISSUER_NAME, url: origin },
+    validFrom: badge.issuedAt,
+    credentialSubject: {
+      type: ["AchievementSubject"],
+      identifier: [
+        { type: "IdentityObject", identityType: "name", hashed: false, identityHash: badge.holderName },
+        ...(badge.email ? [getEmailIdentifier(badge.email)] : []),
+      ],
+      achievement: {
+        id: `urn:uuid:${getNameBasedUuid(`${origin}/achievements/${achievementName}`)}`,
+        type: ["Achievement"],
+        name: achievementName,
+        description: `${achievementName}, certified by ${ISSUER_NAME}`,
+        criteria: { narrative: `Completion of ${achievementName}` },
+      },
+    },
+  }
+}
+
+/**
+ * Build and sign one credential per badge. The VC-JWT carries the
+ * credential as its claims, plus iss, jti and nbf as Open Badges 3.0 asks.
+ */
+export async function issueOpenBadges(badges: BadgeToIssue[], origin: string): Promise<OpenBadge[]> {
+  const issued: OpenBadge[] = []
+  for (const badge of badges) {
+    const credential = buildCredential(badge, origin)
+    const jwt = await signJsonWebToken({
+      ...credential,
+      iss: credential.issuer.id,
+      jti: credential.id,
+      nbf: Math.floor(Date.parse(credential.validFrom) / 1000),
+    })
+    issued.push({ credential: JSON.stringify(credential, null, 2), jwt })
+  }
+
+  console.log(`[Open Badges] Issued ${issued.length} badges`)
+  return issued
+}
@@ -0,0 +1,192 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from "pdf-lib"
+import fontkit from "@pdf-lib/fontkit"
+import type { CertificateField } from "@/types/certificate"
+import { getFontFileUrl } from "@/lib/fonts"
+import { layoutFieldText } from "@/lib/text-layout"
+import { getQrBox, getQrSymbol, isQrField } from "@/lib/qr-code"
+
+// Templates are treated as 72 DPI, so one template pixel maps to one PDF point
+const POINTS_PER_TEMPLATE_PIXEL = 1
+
+// Standard PDF fonts used when a font file cannot be fetched; they only cover WinAnsi (Latin-1 and a few more)
+const STANDARD_FONT_FALLBACKS: Record<string, { regular: StandardFonts; bold: StandardFonts }> = {
+  Garamond: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold },
+  Georgia: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold },
+  Helvetica: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold },
+  Arial: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold },
+}
+
+export interface PdfTextItem {
+  field: CertificateField
+  text: string
+}
+
+// Font files are shared across every certificate in a run; only the subset differs per PDF
+const fontFileCache = new Map<string, Promise<ArrayBuffer | null>>()
+
+const loadFontFile = (family: string, weight: number): Promise<ArrayBuffer | null> => {
+  const key = `${family}:${weight}`
+  let pending = fontFileCache.get(key)
+  if (!pending) {
+    pending = fetch(getFontFileUrl(family, weight))
+      .then((response) => (response.ok ? response.arrayBuffer() : null))
+      .catch((error) => {
+        console.warn(`[PDF] Failed to load font ${key}:`, error)
+        return null
+      })
+    fontFileCache.set(key, pending)
+  }
+  return pending
+}
+
+const embedFieldFont = async (pdfDoc: PDFDocument, family: string, weight: number): Promise<PDFFont> => {
+  const fontFile = await loadFontFile(family, weight)
+  if (fontFile) {
+    return await pdfDoc.embedFont(fontFile, { subset: true })
+  }
+
+  const fallback = STANDARD_FONT_FALLBACKS[family] || STANDARD_FONT_FALLBACKS.Helvetica
+  console.warn(`[PDF] Using standard font fallback for ${family} ${weight}`)
+  return await pdfDoc.embedFont(weight >= 600 ? fallback.bold : fallback.regular)
+}
+
+// Embed the template as-is when possible; other formats (WebP, GIF, ...) are re-encoded as PNG
+const embedTemplateImage = async (pdfDoc: PDFDocument, templateImage: string): Promise<PDFImage> => {
+  const bytes = await (await fetch(templateImage)).arrayBuffer()
+
+  if (templateImage.startsWith("data:image/png")) return await pdfDoc.embedPng(bytes)
+  if (templateImage.startsWith("data:image/jpeg") || templateImage.startsWith("data:image/jpg")) {
+    return await pdfDoc.embedJpg(bytes)
+  }
+
+  const img = new Image()
+  img.crossOrigin = "anonymous"
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve()
+    img.onerror = () => reject(new Error("Failed to load template image"))
+    img.src = templateImage
+  })
+  const canvas = document.createElement("canvas")
+  canvas.width = img.width
+  canvas.height = img.height
+  canvas.getContext("2d")!.drawImage(img, 0, 0)
+  return await pdfDoc.embedPng(canvas.toDataURL("image/png"))
+}
+
+/**
+ * Swap out characters the font has no glyph for, since the standard fonts
+ * throw on them. An accented letter falls back to its base letter when that
+ * exists (ễ → e); anything else becomes "?". Swapped characters are added to
+ * replaced.
+ */
+const toDrawableText = (text: string, supported: Set<number>, replaced: Set<string>) =>
+  Array.from(text, (char) => {
+    if (supported.has(char.codePointAt(0)!)) return char
+    replaced.add(char)
+    const base = char.normalize("NFD").replace(/\p{M}/gu, "")
+    return base && Array.from(base).every((part) => supported.has(part.codePointAt(0)!)) ? base : "?"
+  }).join("")
+
+const hexToRgb = (hex: string) => {
+  const value = Number.parseInt(hex.replace("#", ""), 16) || 0
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
+
+const drawQrField = (page: PDFPage, field: CertificateField, payload: string, pageHeight: number) => {
+  const box = getQrBox(field)
+  const { path, modules } = getQrSymbol(payload)
+  const left = box.left * POINTS_PER_TEMPLATE_PIXEL
+  const top = pageHeight - box.top * POINTS_PER_TEMPLATE_PIXEL
+  const size = box.width * POINTS_PER_TEMPLATE_PIXEL
+
+  page.drawRectangle({ x: left, y: top - size, width: size, height: size, color: rgb(1, 1, 1) })
+  // SVG paths are drawn downwards from (x, y), matching the module rows
+  page.drawSvgPath(path, { x: left, y: top, scale: size / modules, color: hexToRgb(field.color) })
+}
+
+/**
+ * Render a certificate as a vector PDF: the template is the page background and
+ * every field is real, selectable text in its embedded (subsetted) font.
+ * Layout (wrapping, shrinking, truncation) and coordinates follow the canvas
+ * renderer: field.y is the first text baseline. QR fields are vector paths,
+ * with their item text as the payload. Characters no font can draw are
+ * replaced rather than failing the certificate, and reported through
+ * onReplacedCharacters.
+ */
+export async function createVectorCertificatePdf(
+  templateImage: string,
+  templateWidth: number,
+  templateHeight: number,
+  items: PdfTextItem[],
+  onReplacedCharacters?: (characters: string[]) => void,
+): Promise<Blob> {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.registerFontkit(fontkit)
+
+  const pageWidth = templateWidth * POINTS_PER_TEMPLATE_PIXEL
+  const pageHeight = templateHeight * POINTS_PER_TEMPLATE_PIXEL
+  const page = pdfDoc.addPage([pageWidth, pageHeight])
+
+  const background = await embedTemplateImage(pdfDoc, templateImage)
+  page.drawImage(background, { x: 0, y: 0, width: pageWidth, height: pageHeight })
+
+  const fonts = new Map<string, { font: PDFFont; supported: Set<number> }>()
+  const replaced = new Set<string>()
+
+  for (const { field, text } of items) {
+    if (!text) continue
+
+    if (isQrField(field)) {
+      drawQrField(page, field, text, pageHeight)
+      continue
+    }
+
+    const fontKey = `${field.fontFamily}:${field.fontWeight}`
+    let embedded = fonts.get(fontKey)
+    if (!embedded) {
+      const font = await embedFieldFont(pdfDoc, field.fontFamily, field.fontWeight)
+      embedded = { font, supported: new Set(font.getCharacterSet()) }
+      fonts.set(fontKey, embedded)
+    }
+    const { font } = embedded
+
+    const drawable = toDrawableText(text, embedded.supported, replaced)
+    const layout = layoutFieldText(field, drawable, (value, fontSize) => font.widthOfTextAtSize(value, fontSize))
+    const fontSize = layout.fontSize * POINTS_PER_TEMPLATE_PIXEL
+    const maxWidth = field.maxWidth ? field.maxWidth * POINTS_PER_TEMPLATE_PIXEL : undefined
+    const fieldX = field.x * POINTS_PER_TEMPLATE_PIXEL
+    const anchorX =
+      field.alignment === "center" ? fieldX : field.alignment === "right" ? fieldX + (maxWidth || 0) : fieldX
+    const color = hexToRgb(field.color)
+
+    layout.lines.forEach((line, index) => {
+      // Condensing matches canvas fillText(maxWidth): squash horizontally instead of overflowing
+      const drawnWidth = font.widthOfTextAtSize(line, fontSize) * layout.condense
+      const left =
+        field.alignment === "center" ? anchorX - drawnWidth / 2 : field.alignment === "right" ? anchorX - drawnWidth : anchorX
+      const baseline = pageHeight - (field.y + index * layout.lineAdvance) * POINTS_PER_TEMPLATE_PIXEL
+
+      page.pushOperators(pushGraphicsState(), concatTransformationMatrix(layout.condense, 0, 0, 1, left, baseline))
+      page.drawText(line, { x: 0, y: 0, size: fontSize, font, color })
+      page.pushOperators(popGraphicsState())
+    })
+  }
+
+  if (replaced.size > 0) {
+    console.warn("[PDF] Replaced characters the fonts cannot draw:", [...replaced].join(" "))
+    onReplacedCharacters?.([...replaced])
+  }
+
+  const pdfBytes = await pdfDoc.save()
+  return new Blob([pdfBytes as BlobPart], { type: "application/pdf" })
+}
@@ -0,0 +1,80 @@
+import { create as createQrCode } from "qrcode"
+import type { CertificateField } from "@/types/certificate"
+import { findEmptyMergeTags, renderMergeTags } from "@/lib/email-template"
+
+export const DEFAULT_QR_PATTERN = "{{VerificationURL}}"
+export const DEFAULT_QR_SIZE = 150
+export const MIN_QR_SIZE = 48
+
+// Scanners need a light margin four modules wide around the symbol
+const QUIET_ZONE_MODULES = 4
+
+export const isQrField = (field: CertificateField) => field.type === "qr"
+
+/**
+ * The text a row's QR code encodes. Values merged into a URL pattern are
+ * percent-encoded so names with spaces still make a valid link. Returns ""
+ * when a tag has no value, rather than printing a code that goes nowhere.
+ */
+export function buildQrPayload(pattern: string, values: Record<string, string>): string {
+  if (findEmptyMergeTags(pattern, values).length > 0) return ""
+  if (!/^https?:\/\//i.test(pattern.trim())) return renderMergeTags(pattern, values).trim()
+
+  const encoded = Object.fromEntries(Object.entries(values).map(([key, value]) => [key, encodeURIComponent(value)]))
+  return renderMergeTags(pattern, encoded).trim()
+}
+
+/**
+ * The QR field's square in template pixels. Unlike text, y is the top edge;
+ * the side length is maxWidth, and a centred square is centred on x.
+ */
+export function getQrBox(field: CertificateField) {
+  const size = field.maxWidth || DEFAULT_QR_SIZE
+  return {
+    left: field.alignment === "center" ? field.x - size / 2 : field.x,
+    top: field.y,
+    width: size,
+    height: size,
+  }
+}
+
+/**
+ * The symbol as one SVG path in module units (quiet zone included), with each
+ * row's dark runs merged into rectangles. Filling a single path avoids the
+ * hairline seams separate squares leave between modules when scaled.
+ */
+export function getQrSymbol(payload: string): { path: string; modules: number } {
+  const { size, data } = createQrCode(payload, { errorCorrectionLevel: "M" }).modules
+  const commands: string[] = []
+
+  for (let row = 0; row < size; row++) {
+    let col = 0
+    while (col < size) {
+      if (!data[row * size + col]) {
+        col++
+        continue
+      }
+      const start = col
+      while (col < size && data[row * size + col]) col++
+      commands.push(`M${start + QUIET_ZONE_MODULES} ${row + QUIET_ZONE_MODULES}h${col - start}v1h${start - col}z`)
+    }
+  }
+
+  return { path: commands.join(""), modules: size + QUIET_ZONE_MODULES * 2 }
+}
+
+// Draw a QR field on a white square so it scans on dark or busy templates
+export function drawFieldQr(ctx: CanvasRenderingContext2D, field: CertificateField, payload: string) {
+  const box = getQrBox(field)
+  const { path, modules } = getQrSymbol(payload)
+  const moduleSize = box.width / modules
+
+  ctx.save()
+  ctx.fillStyle = "#ffffff"
+  ctx.fillRect(box.left, box.top, box.width, box.height)
+  ctx.translate(box.left, box.top)
+  ctx.scale(moduleSize, moduleSize)
+  ctx.fillStyle = field.color
+  ctx.fill(new Path2D(path))
+  ctx.restore()
+}
@@ -0,0 +1,44 @@
+import type { NextRequest } from 'next/server'
+
+// Get client IP address
+export function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  const realIP = request.headers.get('x-real-ip')
+  
+  if (forwarded) {
+    return forwarded.split(',')[0].trim()
+  }
+  
+  if (realIP) {
+    return realIP.trim()
+  }
+  
+  return 'unknown'
+}
+
+/**
+ * Fixed-window, in-memory rate limiter keyed by client (in production, use Redis or similar).
+ * Each call site gets its own store so one endpoint's attempts do not count against another.
+ */
+export function createRateLimiter(windowMs: number, maxAttempts: number) {
+  const store = new Map<string, { count: number; resetTime: number }>()
+
+  return function checkRateLimit(key: string): { allowed: boolean; resetTime?: number } {
+    const now = Date.now()
+    const entry = store.get(key)
+    
+    if (!entry || now > entry.resetTime) {
+      // Reset or first request
+      store.set(key, { count: 1, resetTime: now + windowMs })
+      return { allowed: true }
+    }
+    
+    if (entry.count >= maxAttempts) {
+      return { allowed: false, resetTime: entry.resetTime }
+    }
+    
+    // Increment counter
+    entry.count++
+    return { allowed: true }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { isValidTimeZone, utcToZonedTime, zonedTimeToUtc } from "@/lib/schedule"
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("Asia/Kolkata")).toBe(true)
+    expect(isValidTimeZone("UTC")).toBe(true)
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false)
+  })
+})
+
+describe("zonedTimeToUtc", () => {
+  it("applies the zone's offset on either side of a DST change", () => {
+    expect(zonedTimeToUtc("2026-06-01T18:30", "Asia/Kolkata")).toEqual(new Date("2026-06-01T13:00:00Z"))
+    expect(zonedTimeToUtc("2026-01-15T09:00", "America/New_York")).toEqual(new Date("2026-01-15T14:00:00Z"))
+    expect(zonedTimeToUtc("2026-07-15T09:00", "America/New_York")).toEqual(new Date("2026-07-15T13:00:00Z"))
+  })
+
+  it("moves a time skipped when clocks go forward on by the jump", () => {
+    // New York goes from 02:00 EST straight to 03:00 EDT
+    expect(zonedTimeToUtc("2026-03-08T02:30", "America/New_York")).toEqual(new Date("2026-03-08T07:30:00Z"))
+    expect(zonedTimeToUtc("2026-03-29T02:30", "Europe/Berlin")).toEqual(new Date("2026-03-29T01:30:00Z"))
+  })
+
+  it("picks the first of two times repeated when clocks go back", () => {
+    // 01:30 happens in EDT, then again an hour later in EST
+    expect(zonedTimeToUtc("2026-11-01T01:30", "America/New_York")).toEqual(new Date("2026-11-01T05:30:00Z"))
+    expect(zonedTimeToUtc("2026-10-25T02:30", "Europe/Berlin")).toEqual(new Date("2026-10-25T00:30:00Z"))
+  })
+
+  it("rejects malformed times and unknown zones", () => {
+    expect(zonedTimeToUtc("2026-06-01 18:30", "UTC")).toBeNull()
+    expect(zonedTimeToUtc("2026-06-01T18:30:00", "UTC")).toBeNull()
+    expect(zonedTimeToUtc("2026-06-01T18:30", "Mars/Olympus")).toBeNull()
+  })
+})
+
+describe("utcToZonedTime", () => {
+  it("shows an instant on the zone's wall clock", () => {
+    expect(utcToZonedTime(new Date("2026-06-01T13:00:00Z"), "Asia/Kolkata")).toBe("2026-06-01T18:30")
+    expect(utcToZonedTime(new Date("2026-11-01T06:30:00Z"), "America/New_York")).toBe("2026-11-01T01:30")
+  })
+
+  it("round-trips every time that exists in the zone", () => {
+    for (const localTime of ["2026-03-08T01:59", "2026-03-08T03:00", "2026-11-01T00:30", "2026-11-01T02:30"]) {
+      expect(utcToZonedTime(zonedTimeToUtc(localTime, "America/New_York")!, "America/New_York")).toBe(localTime)
+    }
+  })
+})
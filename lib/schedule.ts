@@ -0,0 +1,68 @@
+/**
+ * Wall-clock times in a named time zone ("2025-03-14T18:30" in Asia/Kolkata)
+ * to and from UTC instants, using only Intl so it runs in the browser and on
+ * the server alike.
+ */
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant, in ms
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value)
+
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * The instant a datetime-local value ("YYYY-MM-DDTHH:mm") happens in the
+ * given zone, or null if it is malformed. A time repeated when clocks go back
+ * is its first occurrence; a time skipped when they go forward is moved on by
+ * the jump (02:30 becomes 03:30), as a clock would show it.
+ */
+export function zonedTimeToUtc(localTime: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(localTime)
+  if (!match || !isValidTimeZone(timeZone)) return null
+
+  const [, year, month, day, hour, minute] = match.map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The zone's offsets either side of any DST change that day; each one that
+  // puts the wall clock at this time is a match
+  const before = getTimeZoneOffset(new Date(wallClock - DAY), timeZone)
+  const after = getTimeZoneOffset(new Date(wallClock + DAY), timeZone)
+  const matches = [before, after]
+    .map((offset) => wallClock - offset)
+    .filter((utc) => utc + getTimeZoneOffset(new Date(utc), timeZone) === wallClock)
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : wallClock - before)
+}
+
+// The datetime-local value for an instant as seen in the given zone
+export function utcToZonedTime(date: Date, timeZone: string): string {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone)).toISOString().slice(0, 16)
+}
+
+export const formatInTimeZone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short", timeZone, timeZoneName: "short" }).format(
+    new Date(iso)
+  )
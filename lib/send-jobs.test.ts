@@ -0,0 +1,256 @@
+import os from "os"
+import path from "path"
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_EMAIL_TEMPLATE } from "@/lib/email-template"
+
+// Jobs and idempotency keys live under DATA_DIR, which is read when the modules load
+let dataDir: string
+let sendJobs: typeof import("@/lib/send-jobs")
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(os.tmpdir(), "send-jobs-"))
+  vi.stubEnv("DATA_DIR", dataDir)
+  vi.stubEnv("SEND_JOB_SECRET", "")
+  vi.resetModules()
+  sendJobs = await import("@/lib/send-jobs")
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await rm(dataDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+const CERTIFICATE = Buffer.from("certificate").toString("base64")
+
+const recipient = (overrides: Record<string, unknown> = {}) => ({
+  email: "jane@example.com",
+  name: "Jane Doe",
+  fileName: "001_Jane_Doe.pdf",
+  certificateBase64: CERTIFICATE,
+  data: { Name: "Jane Doe" },
+  ...overrides,
+})
+
+const GMAIL = { email: "sender@gmail.com", appPassword: "abcdabcdabcdabcd" }
+
+// Parse a request that is known to be valid
+function parseJob(body: Record<string, unknown>) {
+  const parsed = sendJobs.parseSendRequest({ recipients: [recipient()], ...body })
+  if ("error" in parsed) throw new Error(parsed.error)
+  return parsed.job
+}
+
+const jobFile = (id: string) => path.join(dataDir, "send-jobs", id, "job.json")
+
+// Change a stored job directly, standing in for a run that already happened
+async function updateStoredJob(id: string, update: (job: { recipients: Record<string, unknown>[] }) => void) {
+  const job = JSON.parse(await readFile(jobFile(id), "utf8"))
+  update(job)
+  await writeFile(jobFile(id), JSON.stringify(job))
+}
+
+describe("parseSendRequest", () => {
+  it("reads recipients and falls back to Resend and the default template", () => {
+    const parsed = sendJobs.parseSendRequest({
+      recipients: [recipient({ data: { Name: "Jane Doe", Age: 30 } })],
+      template: { subject: "  ", html: 42 },
+    })
+
+    expect(parsed).toEqual({
+      credentials: null,
+      job: {
+        provider: "resend",
+        sendingMode: undefined,
+        template: DEFAULT_EMAIL_TEMPLATE,
+        recipients: [
+          {
+            email: "jane@example.com",
+            name: "Jane Doe",
+            fileName: "001_Jane_Doe.pdf",
+            certificateBlob: Buffer.from("certificate"),
+            // Only text columns are kept for merge tags
+            data: { Name: "Jane Doe" },
+          },
+        ],
+      },
+    })
+  })
+
+  it("rejects bodies without recipients", () => {
+    expect(sendJobs.parseSendRequest(null)).toEqual({ error: "No recipients provided" })
+    expect(sendJobs.parseSendRequest({ recipients: [] })).toEqual({ error: "No recipients provided" })
+    expect(sendJobs.parseSendRequest({ recipients: "jane@example.com" })).toEqual({ error: "No recipients provided" })
+  })
+
+  it("rejects unknown providers and sending modes", () => {
+    expect(sendJobs.parseSendRequest({ recipients: [recipient()], provider: "carrier-pigeon" })).toEqual({
+      error: "Unknown email provider",
+    })
+    expect(sendJobs.parseSendRequest({ recipients: [recipient()], provider: "toString" })).toEqual({
+      error: "Unknown email provider",
+    })
+    expect(sendJobs.parseSendRequest({ recipients: [recipient()], sendingMode: "parallel" })).toEqual({
+      error: "Unknown sending mode",
+    })
+    expect(parseJob({ sendingMode: "pooled" }).sendingMode).toBe("pooled")
+  })
+
+  it("rejects recipients without a certificate or file name", () => {
+    expect(sendJobs.parseSendRequest({ recipients: [recipient(), recipient({ certificateBase64: undefined })] })).toEqual({
+      error: "Recipient 2 has no certificate",
+    })
+    expect(sendJobs.parseSendRequest({ recipients: [recipient({ fileName: " " })] })).toEqual({
+      error: "Recipient 1 has no certificate file name",
+    })
+    expect(sendJobs.parseSendRequest({ recipients: ["jane@example.com"] })).toEqual({ error: "Recipient 1 is not valid" })
+  })
+
+  it("keeps recipients without an address, to be skipped when sending", () => {
+    expect(parseJob({ recipients: [recipient({ email: undefined })] }).recipients[0].email).toBe("")
+  })
+
+  it("requires credentials for Gmail and SMTP, except on a dry run", () => {
+    expect(sendJobs.parseSendRequest({ recipients: [recipient()], provider: "gmail" })).toEqual({
+      error: "Gmail credentials required but not provided",
+    })
+    expect(sendJobs.parseSendRequest({ recipients: [recipient()], provider: "gmail" }, { requireCredentials: false })).toMatchObject({
+      credentials: null,
+    })
+    expect(sendJobs.parseSendRequest({ recipients: [recipient()], provider: "gmail", credentials: GMAIL })).toMatchObject({
+      credentials: GMAIL,
+    })
+  })
+
+  it("checks the SMTP server that comes with SMTP credentials", () => {
+    const smtp = { host: "smtp.example.org", port: 587, security: "starttls" }
+
+    expect(
+      sendJobs.parseSendRequest({ recipients: [recipient()], provider: "smtp", credentials: { ...GMAIL, smtp: { ...smtp, port: "587" } } })
+    ).toHaveProperty("error")
+    expect(
+      sendJobs.parseSendRequest({ recipients: [recipient()], provider: "smtp", credentials: { ...GMAIL, smtp } })
+    ).toMatchObject({ credentials: { ...GMAIL, smtp } })
+  })
+
+  it("passes on a well-formed Open Badge and ignores anything else", () => {
+    const badge = { credential: "{}", jwt: "a.b.c" }
+
+    expect(parseJob({ recipients: [recipient({ badge })] }).recipients[0].badge).toEqual(badge)
+    expect(parseJob({ recipients: [recipient({ badge: { credential: "{}" } })] }).recipients[0]).not.toHaveProperty("badge")
+  })
+})
+
+describe("parseSchedule", () => {
+  it("turns a wall-clock time in the chosen zone into an instant", () => {
+    expect(sendJobs.parseSchedule({ localTime: "2099-06-01T18:30", timeZone: "Asia/Kolkata" }, "resend")).toEqual({
+      schedule: { scheduledAt: new Date("2099-06-01T13:00:00Z"), timeZone: "Asia/Kolkata" },
+    })
+  })
+
+  it("sends a time skipped by a DST change when the clock reaches it", () => {
+    expect(sendJobs.parseSchedule({ localTime: "2099-03-08T02:30", timeZone: "America/New_York" }, "resend")).toEqual({
+      schedule: { scheduledAt: new Date("2099-03-08T07:30:00Z"), timeZone: "America/New_York" },
+    })
+  })
+
+  it("rejects unknown zones, malformed and past times", () => {
+    expect(sendJobs.parseSchedule({ localTime: "2099-06-01T18:30", timeZone: "Mars/Olympus" }, "resend")).toEqual({
+      error: "Unknown time zone",
+    })
+    expect(sendJobs.parseSchedule({ localTime: "tomorrow", timeZone: "UTC" }, "resend")).toEqual({
+      error: "Please choose a valid date and time",
+    })
+    expect(sendJobs.parseSchedule({ localTime: "2020-01-01T00:00", timeZone: "UTC" }, "resend")).toEqual({
+      error: "The scheduled time is in the past",
+    })
+    expect(sendJobs.parseSchedule("2099-06-01T18:30", "resend")).toEqual({ error: "Unknown time zone" })
+  })
+
+  it("only schedules Gmail and SMTP sends when credentials can be stored", () => {
+    expect(sendJobs.parseSchedule({ localTime: "2099-06-01T18:30", timeZone: "UTC" }, "gmail")).toEqual({
+      error: "Scheduling Gmail or SMTP sends requires SEND_JOB_SECRET to be set on the server",
+    })
+  })
+})
+
+describe("scheduled send jobs", () => {
+  const schedule = { scheduledAt: new Date("2099-06-01T13:00:00Z"), timeZone: "Asia/Kolkata" }
+
+  it("refuses to schedule a job with nobody to send to", async () => {
+    const job = parseJob({ recipients: [recipient({ email: "not-an-address" })] })
+
+    expect(sendJobs.hasSendableRecipients(job)).toBe(false)
+    await expect(sendJobs.createSendJob(job, schedule)).rejects.toThrow("Send job has no recipients to send")
+  })
+
+  it("stores a scheduled job and can cancel it", async () => {
+    const { job } = await sendJobs.createSendJob(parseJob({}), schedule)
+
+    expect(job).toMatchObject({ status: "scheduled", scheduledAt: "2099-06-01T13:00:00.000Z", timeZone: "Asia/Kolkata" })
+    expect(await sendJobs.cancelSendJob(job.id)).toMatchObject({ status: "cancelled", scheduledAt: undefined })
+  })
+
+  it("finishes a due job that has nothing left to send instead of starting it on every check", async () => {
+    const { job } = await sendJobs.createSendJob(parseJob({}), schedule)
+    await updateStoredJob(job.id, (stored) => {
+      stored.recipients.forEach((stored) => Object.assign(stored, { status: "sent" }))
+    })
+
+    await sendJobs.runDueSendJobs(new Date("2099-06-02T00:00:00Z"))
+    await sendJobs.runSendJob(job.id)
+
+    expect(await sendJobs.getSendJob(job.id)).toMatchObject({ status: "completed", scheduledAt: undefined })
+  })
+})
+
+describe("requeueFailedRecipients", () => {
+  // Job "second" skipped its recipient because job "first" was sending the same certificate to them
+  async function createDuplicate(firstStatus: "sent" | "failed") {
+    const { job: first } = await sendJobs.createSendJob(parseJob({}))
+    const { job: second } = await sendJobs.createSendJob(parseJob({}))
+    await updateStoredJob(first.id, (stored) => Object.assign(stored.recipients[0], { status: firstStatus }))
+    await updateStoredJob(second.id, (stored) =>
+      Object.assign(stored.recipients[0], {
+        status: "skipped",
+        error: "Already being sent by another job",
+        duplicateOf: first.id,
+      })
+    )
+    return second.id
+  }
+
+  it("retries a recipient the other job did not manage to send", async () => {
+    const id = await createDuplicate("failed")
+
+    expect((await sendJobs.requeueFailedRecipients(id))?.recipients[0]).toMatchObject({
+      status: "queued",
+      duplicateOf: undefined,
+    })
+  })
+
+  it("leaves a recipient the other job sent alone", async () => {
+    const id = await createDuplicate("sent")
+
+    expect((await sendJobs.requeueFailedRecipients(id))?.recipients[0]).toMatchObject({
+      status: "skipped",
+      error: "Already sent",
+    })
+  })
+
+  it("uses corrected addresses and skips recipients still without one", async () => {
+    const { job } = await sendJobs.createSendJob(
+      parseJob({ recipients: [recipient({ email: "jane@" }), recipient({ email: "" })] })
+    )
+
+    const requeued = await sendJobs.requeueFailedRecipients(job.id, { 0: "jane@example.com" })
+    expect(requeued?.recipients.map(({ email, status }) => ({ email, status }))).toEqual([
+      { email: "jane@example.com", status: "queued" },
+      { email: "", status: "skipped" },
+    ])
+  })
+})
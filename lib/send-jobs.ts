@@ -0,0 +1,701 @@
+import path from "path"
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises"
+import { canStoreCredentials, openCredentials, sealCredentials } from "@/lib/credential-vault"
+import { sendBulkCertificates, type CertificateRecipient } from "@/lib/email-service"
+import { DEFAULT_EMAIL_TEMPLATE } from "@/lib/email-template"
+import {
+  claimIdempotencyKey,
+  hashCertificate,
+  recipientKey,
+  releaseIdempotencyKey,
+  updateIdempotencyKey,
+} from "@/lib/idempotency"
+import { isValidSenderEmail, parseSmtpServer } from "@/lib/smtp"
+import { isEmailProvider } from "@/lib/email-providers"
+import { isRecord } from "@/lib/utils"
+import { isValidTimeZone, zonedTimeToUtc } from "@/lib/schedule"
+import type {
+  EmailCredentials,
+  EmailProvider,
+  EmailTemplate,
+  OpenBadge,
+  RecipientSendStatus,
+  SendingMode,
+  SendJobEvent,
+  SendJobRecipient,
+  SendJobSummary,
+} from "@/types/certificate"
+
+/**
+ * File-backed email send jobs. Each job lives in its own directory under
+ * DATA_DIR (default .data/) with a job.json holding per-recipient status and
+ * one file per certificate, so a job interrupted by a crash or restart can be
+ * resumed without re-sending anyone already marked sent.
+ * Credentials are only kept on disk (encrypted) by scheduled jobs, until the
+ * job starts; resuming needs them again. Idempotency keys (lib/idempotency)
+ * keep a repeated request or a second job from mailing anyone twice.
+ */
+
+const JOBS_DIR = path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), "send-jobs")
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+interface StoredRecipient extends SendJobRecipient {
+  data: Record<string, string>
+  // Certificate file name inside the job directory
+  attachment: string
+  // sha256 of the certificate, for the recipient's idempotency key (missing in jobs stored before it was added)
+  certificateHash?: string
+  // Open Badge attached next to the certificate, if the email step chose to
+  badge?: OpenBadge
+}
+
+interface StoredSendJob {
+  id: string
+  provider: EmailProvider
+  sendingMode?: SendingMode
+  // Mode actually used, once something has been sent
+  mode?: SendingMode
+  template: EmailTemplate
+  createdAt: string
+  updatedAt: string
+  startedAt?: string
+  scheduledAt?: string
+  timeZone?: string
+  cancelledAt?: string
+  // Credentials a scheduled job will send with, encrypted with SEND_JOB_SECRET
+  sealedCredentials?: string
+  // Client-chosen key; repeating the request with it returns this job instead of creating another
+  idempotencyKey?: string
+  error?: string
+  recipients: StoredRecipient[]
+}
+
+export interface SendSchedule {
+  scheduledAt: Date
+  timeZone: string
+}
+
+export interface NewSendJob {
+  provider: EmailProvider
+  sendingMode?: SendingMode
+  template: EmailTemplate
+  recipients: CertificateRecipient[]
+  idempotencyKey?: string
+}
+
+interface SendJobState {
+  // Jobs being sent by this server process; a stored job with queued recipients that is not in here was interrupted
+  runningJobs: Map<string, Promise<void>>
+  // In-memory state of running jobs, always at least as fresh as job.json
+  liveJobs: Map<string, StoredSendJob>
+  // Progress events, keyed by job id
+  jobEvents: EventEmitter
+}
+
+// Shared through globalThis because the scheduler (loaded from instrumentation) and the
+// route handlers get separate copies of this module
+const sendJobState = ((globalThis as { sendJobState?: SendJobState }).sendJobState ??= {
+  runningJobs: new Map(),
+  liveJobs: new Map(),
+  jobEvents: new EventEmitter().setMaxListeners(0),
+})
+const { runningJobs, liveJobs, jobEvents } = sendJobState
+
+const jobDir = (id: string) => path.join(JOBS_DIR, id)
+
+const toBuffer = async (certificateBlob: Blob | Buffer) =>
+  Buffer.isBuffer(certificateBlob) ? certificateBlob : Buffer.from(await certificateBlob.arrayBuffer())
+
+// Write to a temp file and rename, so a crash mid-write never leaves a truncated job.json
+async function saveJob(job: StoredSendJob) {
+  job.updatedAt = new Date().toISOString()
+  const file = path.join(jobDir(job.id), "job.json")
+  await writeFile(`${file}.tmp`, JSON.stringify(job))
+  await rename(`${file}.tmp`, file)
+}
+
+async function readJob(id: string): Promise<StoredSendJob | null> {
+  // Ids end up in file paths, so anything but a UUID is rejected outright
+  if (!JOB_ID_PATTERN.test(id)) return null
+
+  try {
+    return JSON.parse(await readFile(path.join(jobDir(id), "job.json"), "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+function countStatuses(job: StoredSendJob) {
+  const counts: Record<RecipientSendStatus, number> = { queued: 0, sent: 0, failed: 0, skipped: 0 }
+  for (const recipient of job.recipients) counts[recipient.status]++
+  return counts
+}
+
+const toRecipientView = ({
+  email,
+  name,
+  fileName,
+  status,
+  messageId,
+  error,
+  attempts,
+  completedAt,
+  duplicateOf,
+}: StoredRecipient) => ({
+  email,
+  name,
+  fileName,
+  status,
+  messageId,
+  error,
+  attempts,
+  completedAt,
+  duplicateOf,
+})
+
+// Why a recipient claimed by another send was skipped
+const ALREADY_SENT = "Already sent"
+const ANOTHER_JOB_SENDING = "Already being sent by another job"
+
+const recipientKeyOf = (recipient: StoredRecipient) => recipientKey(recipient.email, recipient.certificateHash || "")
+
+function toSummary(job: StoredSendJob): SendJobSummary {
+  const counts = countStatuses(job)
+
+  return {
+    id: job.id,
+    status: runningJobs.has(job.id)
+      ? "running"
+      : job.cancelledAt
+        ? "cancelled"
+        : job.scheduledAt
+          ? "scheduled"
+          : counts.queued > 0
+            ? "interrupted"
+            : "completed",
+    provider: job.provider,
+    mode: job.mode,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    scheduledAt: job.scheduledAt,
+    timeZone: job.timeZone,
+    error: job.error,
+    counts,
+    recipients: job.recipients.map(toRecipientView),
+  }
+}
+
+const emitSnapshot = (job: StoredSendJob) =>
+  jobEvents.emit(job.id, { type: "snapshot", job: toSummary(job) } satisfies SendJobEvent)
+
+/**
+ * Read the credentials posted with a request for this provider, or a
+ * user-facing message when it cannot be used with them. Resend takes none.
+ */
+export function parseProviderCredentials(
+  provider: EmailProvider,
+  value: unknown
+): { credentials: EmailCredentials | null } | { error: string } {
+  if (provider === "resend") return { credentials: null }
+
+  if (!isRecord(value) || typeof value.email !== "string" || typeof value.appPassword !== "string") {
+    return { error: `${provider === "gmail" ? "Gmail" : "SMTP"} credentials required but not provided` }
+  }
+  const credentials: EmailCredentials = { email: value.email, appPassword: value.appPassword }
+  if (provider === "gmail") return { credentials }
+
+  const server = parseSmtpServer(value.smtp)
+  return "error" in server ? server : { credentials: { ...credentials, smtp: server.server } }
+}
+
+// Set (or move) the job's start time; credentials are sealed since nobody will be around to enter them
+function applySchedule(job: StoredSendJob, schedule: SendSchedule, credentials?: EmailCredentials | null) {
+  job.scheduledAt = schedule.scheduledAt.toISOString()
+  job.timeZone = schedule.timeZone
+  job.cancelledAt = undefined
+  job.error = undefined
+  if (credentials) job.sealedCredentials = sealCredentials(credentials)
+}
+
+// A job with nobody to send to would never start, so it cannot be scheduled
+export const hasSendableRecipients = (input: NewSendJob) =>
+  input.recipients.some((recipient) => isValidSenderEmail(recipient.email || ""))
+
+/**
+ * Store a new job with every recipient queued (or skipped when there is no
+ * usable address). With a schedule, the scheduler starts it at that time;
+ * otherwise the caller runs it. When another job already holds the input's
+ * idempotency key, nothing is created and that job is returned with
+ * duplicate set.
+ */
+export async function createSendJob(
+  input: NewSendJob,
+  schedule?: SendSchedule,
+  credentials?: EmailCredentials | null
+): Promise<{ job: SendJobSummary; duplicate: boolean }> {
+  if (schedule && !hasSendableRecipients(input)) {
+    throw new Error("Send job has no recipients to send")
+  }
+
+  const id = randomUUID()
+  const now = new Date().toISOString()
+  await mkdir(jobDir(id), { recursive: true })
+
+  const recipients: StoredRecipient[] = await Promise.all(
+    input.recipients.map(async (recipient, index) => {
+      const attachment = `${index}${path.extname(recipient.fileName)}`
+      const certificate = await toBuffer(recipient.certificateBlob)
+      await writeFile(path.join(jobDir(id), attachment), certificate)
+      const hasAddress = isValidSenderEmail(recipient.email || "")
+
+      return {
+        email: recipient.email,
+        name: recipient.name,
+        fileName: recipient.fileName,
+        data: recipient.data || {},
+        attachment,
+        certificateHash: hashCertificate(certificate),
+        ...(recipient.badge && { badge: recipient.badge }),
+        status: hasAddress ? "queued" : "skipped",
+        ...(hasAddress ? {} : { error: "No valid email address" }),
+      }
+    })
+  )
+
+  const job: StoredSendJob = {
+    id,
+    provider: input.provider,
+    sendingMode: input.sendingMode,
+    template: input.template,
+    idempotencyKey: input.idempotencyKey,
+    createdAt: now,
+    updatedAt: now,
+    recipients,
+  }
+  if (schedule) applySchedule(job, schedule, credentials)
+  await saveJob(job)
+
+  // Claimed only once the job is on disk, so whoever loses the race can always read the winner's job
+  if (input.idempotencyKey) {
+    const holder = await claimIdempotencyKey("jobs", input.idempotencyKey, { jobId: id })
+    const existing = holder && (await getSendJob(holder.jobId))
+    if (holder) {
+      await rm(jobDir(id), { recursive: true, force: true })
+      if (!existing) throw new Error("A send with this idempotency key is already being created")
+
+      console.log(`[Send Jobs] Duplicate request for job ${existing.id}, nothing created`)
+      return { job: existing, duplicate: true }
+    }
+  }
+
+  console.log(`[Send Jobs] Created job ${id} with ${recipients.length} recipients via ${input.provider}`)
+  return { job: toSummary(job), duplicate: false }
+}
+
+export async function getSendJob(id: string): Promise<SendJobSummary | null> {
+  const job = liveJobs.get(id) || (await readJob(id))
+  return job && toSummary(job)
+}
+
+/**
+ * Follow a job's progress. The listener gets a snapshot straight away, one
+ * event per recipient as they are sent, and a final snapshot when the job
+ * stops. Returns the unsubscribe function.
+ */
+export async function watchSendJob(id: string, listener: (event: SendJobEvent) => void): Promise<() => void> {
+  // Subscribe before reading, so nothing sent in between is missed
+  jobEvents.on(id, listener)
+  const unsubscribe = () => {
+    jobEvents.off(id, listener)
+  }
+
+  const job = await getSendJob(id)
+  if (!job) {
+    unsubscribe()
+    throw new Error(`Send job ${id} not found`)
+  }
+
+  listener({ type: "snapshot", job })
+  return unsubscribe
+}
+
+export const isSendJobRunning = (id: string) => runningJobs.has(id)
+
+// Schedule a job that is not running, or move its start time; this also revives a cancelled job
+export async function scheduleSendJob(
+  id: string,
+  schedule: SendSchedule,
+  credentials?: EmailCredentials | null
+): Promise<SendJobSummary | null> {
+  if (runningJobs.has(id)) throw new Error("Send job is already running")
+
+  const job = await readJob(id)
+  if (!job) return null
+
+  // The scheduler may have started the job while it was being read
+  if (runningJobs.has(id)) throw new Error("Send job is already running")
+  applySchedule(job, schedule, credentials)
+  await saveJob(job)
+  emitSnapshot(job)
+  return toSummary(job)
+}
+
+// Stop a job from starting; its stored credentials are deleted right away
+export async function cancelSendJob(id: string): Promise<SendJobSummary | null> {
+  if (runningJobs.has(id)) throw new Error("Send job is already running")
+
+  const job = await readJob(id)
+  if (!job) return null
+
+  if (runningJobs.has(id)) throw new Error("Send job is already running")
+  Object.assign(job, { cancelledAt: new Date().toISOString(), scheduledAt: undefined, sealedCredentials: undefined })
+  await saveJob(job)
+  emitSnapshot(job)
+  return toSummary(job)
+}
+
+/**
+ * Start every scheduled job whose time has come, including any that fell due
+ * while the server was down. Called periodically by the scheduler.
+ */
+export async function runDueSendJobs(now = new Date()) {
+  const ids = await readdir(JOBS_DIR).catch(() => [] as string[])
+
+  for (const id of ids) {
+    if (runningJobs.has(id)) continue
+    const job = await readJob(id).catch(() => null)
+    if (!job?.scheduledAt || job.cancelledAt || Date.parse(job.scheduledAt) > now.getTime()) continue
+
+    let credentials: EmailCredentials | null = null
+    try {
+      credentials = job.sealedCredentials ? openCredentials(job.sealedCredentials) : null
+    } catch (error) {
+      // E.g. SEND_JOB_SECRET changed; the job can still be resumed by hand
+      console.error(`[Send Jobs] Cannot read credentials of scheduled job ${id}:`, error)
+      Object.assign(job, { scheduledAt: undefined, sealedCredentials: undefined, error: "Stored credentials could not be read" })
+      await saveJob(job)
+      continue
+    }
+
+    console.log(`[Send Jobs] Starting scheduled job ${id} (due ${job.scheduledAt})`)
+    runSendJob(id, credentials).catch((error) => console.error(`[Send Jobs] Scheduled job ${id} failed:`, error))
+  }
+}
+
+// Whether another job has since sent this recipient's certificate; false once that job gave up on it
+async function isSentByOtherJob(recipient: StoredRecipient): Promise<boolean> {
+  const other = recipient.duplicateOf ? await readJob(recipient.duplicateOf) : null
+  const key = recipientKeyOf(recipient)
+  return !!other?.recipients.some((candidate) => candidate.status === "sent" && recipientKeyOf(candidate) === key)
+}
+
+/**
+ * Put failed and skipped recipients back in the queue so the next run sends
+ * them again; everyone already sent is left alone. A recipient skipped while
+ * another job was sending to them is only retried if that job did not send
+ * it. emails maps a recipient's index to a corrected address. Returns null
+ * when the job does not exist.
+ */
+export async function requeueFailedRecipients(
+  id: string,
+  emails: Record<number, string> = {}
+): Promise<SendJobSummary | null> {
+  if (runningJobs.has(id)) throw new Error("Send job is already running")
+
+  const job = await readJob(id)
+  if (!job) return null
+
+  for (const [index, recipient] of job.recipients.entries()) {
+    if (recipient.status !== "failed" && recipient.status !== "skipped") continue
+    if (recipient.duplicateOf) {
+      // Already sent (by this job or another); retrying would only skip them again
+      if (recipient.error !== ANOTHER_JOB_SENDING) continue
+      if (await isSentByOtherJob(recipient)) {
+        recipient.error = ALREADY_SENT
+        continue
+      }
+      recipient.duplicateOf = undefined
+    }
+
+    const email = emails[index]?.trim()
+    if (email) recipient.email = email
+
+    if (isValidSenderEmail(recipient.email || "")) {
+      Object.assign(recipient, { status: "queued", error: undefined, messageId: undefined })
+    } else {
+      Object.assign(recipient, { status: "skipped", error: "No valid email address" })
+    }
+  }
+  await saveJob(job)
+
+  return toSummary(job)
+}
+
+/**
+ * Send every recipient of the job that is still queued, saving each outcome
+ * as soon as it is known. Calling it again for a job that is already running
+ * returns the same promise instead of sending twice.
+ */
+export function runSendJob(id: string, credentials?: EmailCredentials | null): Promise<void> {
+  const running = runningJobs.get(id)
+  if (running) return running
+
+  const run = (async () => {
+    const job = await readJob(id)
+    if (!job) throw new Error(`Send job ${id} not found`)
+
+    const queued = job.recipients.filter((recipient) => recipient.status === "queued")
+    if (queued.length === 0) {
+      // Nothing left to send: a due schedule is done, not to be started again on every check
+      if (job.scheduledAt || job.sealedCredentials) {
+        Object.assign(job, { scheduledAt: undefined, sealedCredentials: undefined })
+        await saveJob(job)
+        emitSnapshot(job)
+      }
+      return
+    }
+
+    console.log(`[Send Jobs] Running job ${id}: ${queued.length} of ${job.recipients.length} recipients queued`)
+    // Starting by hand overrides a schedule; credentials are held in memory from here on
+    Object.assign(job, { scheduledAt: undefined, cancelledAt: undefined, sealedCredentials: undefined })
+    job.error = undefined
+    job.startedAt = new Date().toISOString()
+    liveJobs.set(id, job)
+    await saveJob(job)
+    emitSnapshot(job)
+
+    // Recipients this run holds the idempotency key for
+    const claimed: StoredRecipient[] = []
+
+    try {
+      const certificates = new Map<StoredRecipient, Buffer>()
+      for (const recipient of queued) {
+        const certificate = await readFile(path.join(jobDir(id), recipient.attachment))
+        recipient.certificateHash ??= hashCertificate(certificate)
+
+        const index = job.recipients.indexOf(recipient)
+        const holder = await claimIdempotencyKey("recipients", recipientKeyOf(recipient), { jobId: id, index })
+        if (!holder) {
+          claimed.push(recipient)
+          certificates.set(recipient, certificate)
+        } else if (holder.jobId === id && holder.index === index) {
+          // Our own claim from a run that was cut off, possibly after the email went out
+          if (holder.sentAt) {
+            Object.assign(recipient, { status: "sent", messageId: holder.messageId, error: undefined, completedAt: holder.sentAt })
+          } else {
+            claimed.push(recipient)
+            certificates.set(recipient, certificate)
+          }
+        } else {
+          Object.assign(recipient, {
+            status: "skipped",
+            // The same address and certificate twice in one job counts as already sent too
+            error: holder.sentAt || holder.jobId === id ? ALREADY_SENT : ANOTHER_JOB_SENDING,
+            duplicateOf: holder.jobId || undefined,
+            completedAt: new Date().toISOString(),
+          })
+        }
+      }
+
+      const toSend = queued.filter((recipient) => recipient.status === "queued")
+      if (toSend.length < queued.length) {
+        console.log(`[Send Jobs] Job ${id}: ${queued.length - toSend.length} recipient(s) already sent`)
+        await saveJob(job)
+        emitSnapshot(job)
+      }
+
+      if (toSend.length > 0) {
+        const recipients: CertificateRecipient[] = toSend.map((recipient) => ({
+          email: recipient.email,
+          name: recipient.name,
+          fileName: recipient.fileName,
+          data: recipient.data,
+          certificateBlob: certificates.get(recipient)!,
+          badge: recipient.badge,
+        }))
+
+        await sendBulkCertificates(
+          recipients,
+          job.provider,
+          job.sendingMode,
+          credentials || undefined,
+          job.template,
+          async (result, index) => {
+            const recipient = toSend[index]
+            const completedAt = new Date().toISOString()
+            // Recorded before the job file, so a crash in between cannot lead to a second send
+            if (result.success) {
+              await updateIdempotencyKey("recipients", recipientKeyOf(recipient), {
+                jobId: id,
+                index: job.recipients.indexOf(recipient),
+                claimedAt: job.startedAt!,
+                sentAt: completedAt,
+                messageId: result.messageId,
+              })
+            } else {
+              await releaseIdempotencyKey("recipients", recipientKeyOf(recipient))
+            }
+
+            job.mode = result.provider.endsWith("-pooled") ? "pooled" : "sequential"
+            Object.assign(recipient, {
+              status: result.success ? "sent" : "failed",
+              messageId: result.messageId,
+              error: result.error,
+              attempts: (recipient.attempts || 0) + (result.attempts || 0),
+              completedAt,
+            })
+            await saveJob(job)
+            jobEvents.emit(id, {
+              type: "recipient",
+              index: job.recipients.indexOf(recipient),
+              recipient: toRecipientView(recipient),
+              counts: countStatuses(job),
+            } satisfies SendJobEvent)
+          }
+        )
+      }
+    } catch (error) {
+      // Recipients not reached yet stay queued so the job can be resumed
+      console.error(`[Send Jobs] Job ${id} stopped:`, error)
+      job.error = error instanceof Error ? error.message : "Unknown error"
+      await saveJob(job)
+    } finally {
+      // Anyone not reached may be sent by another job
+      await Promise.all(
+        claimed
+          .filter((recipient) => recipient.status === "queued")
+          .map((recipient) => releaseIdempotencyKey("recipients", recipientKeyOf(recipient)))
+      )
+    }
+  })().finally(() => {
+    runningJobs.delete(id)
+    const job = liveJobs.get(id)
+    liveJobs.delete(id)
+    if (job) emitSnapshot(job)
+  })
+
+  runningJobs.set(id, run)
+  return run
+}
+
+const SENDING_MODES: SendingMode[] = ["sequential", "pooled"]
+
+const readText = (value: unknown) => (typeof value === "string" ? value : "")
+
+// Only string columns are kept; they are all merge tags can use
+const readRow = (value: unknown): Record<string, string> =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string"))
+    : {}
+
+const readBadge = (value: unknown): OpenBadge | undefined =>
+  isRecord(value) && typeof value.credential === "string" && typeof value.jwt === "string"
+    ? { credential: value.credential, jwt: value.jwt }
+    : undefined
+
+function parseRecipient(value: unknown, index: number): { recipient: CertificateRecipient } | { error: string } {
+  if (!isRecord(value)) return { error: `Recipient ${index + 1} is not valid` }
+
+  const fileName = readText(value.fileName).trim()
+  if (!fileName) return { error: `Recipient ${index + 1} has no certificate file name` }
+  if (typeof value.certificateBase64 !== "string" || !value.certificateBase64) {
+    return { error: `Recipient ${index + 1} has no certificate` }
+  }
+
+  // Optional Open Badge to attach; anything else is ignored
+  const badge = readBadge(value.badge)
+  return {
+    recipient: {
+      email: readText(value.email),
+      name: readText(value.name),
+      certificateBlob: Buffer.from(value.certificateBase64, "base64"),
+      fileName,
+      data: readRow(value.data),
+      ...(badge && { badge }),
+    },
+  }
+}
+
+/**
+ * Read a send request body ({ recipients, provider, sendingMode, credentials, template })
+ * as posted by the email step. Certificates arrive base64-encoded; empty
+ * template parts fall back to the default wording. Dry runs skip the
+ * credentials check since nothing is delivered.
+ */
+export function parseSendRequest(
+  body: unknown,
+  { requireCredentials = true }: { requireCredentials?: boolean } = {}
+): { job: NewSendJob; credentials: EmailCredentials | null } | { error: string } {
+  if (!isRecord(body) || !Array.isArray(body.recipients) || body.recipients.length === 0) {
+    return { error: "No recipients provided" }
+  }
+
+  const provider = body.provider ?? "resend"
+  if (!isEmailProvider(provider)) {
+    return { error: "Unknown email provider" }
+  }
+
+  // Leaving it out lets the server pick by recipient count
+  const sendingMode = SENDING_MODES.find((mode) => mode === body.sendingMode)
+  if (body.sendingMode != null && !sendingMode) {
+    return { error: "Unknown sending mode" }
+  }
+
+  const parsedCredentials = parseProviderCredentials(provider, body.credentials)
+  if (requireCredentials && "error" in parsedCredentials) {
+    return parsedCredentials
+  }
+
+  const recipients: CertificateRecipient[] = []
+  for (const [index, value] of body.recipients.entries()) {
+    const parsed = parseRecipient(value, index)
+    if ("error" in parsed) return parsed
+    recipients.push(parsed.recipient)
+  }
+
+  const template = isRecord(body.template) ? body.template : {}
+  return {
+    credentials: "credentials" in parsedCredentials ? parsedCredentials.credentials : null,
+    job: {
+      provider,
+      sendingMode,
+      template: {
+        senderName: readText(template.senderName).trim() || DEFAULT_EMAIL_TEMPLATE.senderName,
+        subject: readText(template.subject).trim() || DEFAULT_EMAIL_TEMPLATE.subject,
+        html: readText(template.html).trim() ? readText(template.html) : DEFAULT_EMAIL_TEMPLATE.html,
+      },
+      recipients,
+    },
+  }
+}
+
+/**
+ * Read a { localTime: "YYYY-MM-DDTHH:mm", timeZone } schedule from a request.
+ * Jobs that need credentials can only be scheduled when the server can
+ * store them (SEND_JOB_SECRET).
+ */
+export function parseSchedule(value: unknown, provider: EmailProvider): { schedule: SendSchedule } | { error: string } {
+  const timeZone = isRecord(value) && typeof value.timeZone === "string" ? value.timeZone : ""
+  if (!isValidTimeZone(timeZone)) {
+    return { error: "Unknown time zone" }
+  }
+
+  const scheduledAt = isRecord(value) && typeof value.localTime === "string" ? zonedTimeToUtc(value.localTime, timeZone) : null
+  if (!scheduledAt) {
+    return { error: "Please choose a valid date and time" }
+  }
+  if (scheduledAt.getTime() < Date.now() - 60 * 1000) {
+    return { error: "The scheduled time is in the past" }
+  }
+
+  if (provider !== "resend" && !canStoreCredentials()) {
+    return { error: "Scheduling Gmail or SMTP sends requires SEND_JOB_SECRET to be set on the server" }
+  }
+
+  return { schedule: { scheduledAt, timeZone } }
+}
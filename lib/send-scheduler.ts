@@ -0,0 +1,43 @@
+import { pruneIdempotencyKeys } from "@/lib/idempotency"
+import { runDueSendJobs } from "@/lib/send-jobs"
+
+// How often scheduled jobs are checked; a job starts at most this late
+const CHECK_INTERVAL_MS = 15 * 1000
+// Expired idempotency keys are only clutter, so they are cleared far less often
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+let timer: ReturnType<typeof setInterval> | null = null
+let checking = false
+let lastPrune = 0
+
+/**
+ * Start the in-process scheduler for scheduled send jobs. Schedules live in
+ * the job files, so after a restart the first check picks up everything
+ * still pending, including jobs that fell due while the server was down.
+ * It also clears out expired idempotency keys.
+ */
+export function startSendScheduler() {
+  if (timer) return
+
+  const check = async () => {
+    // A slow check (many jobs) must not overlap the next one
+    if (checking) return
+    checking = true
+    try {
+      await runDueSendJobs()
+      if (Date.now() - lastPrune >= PRUNE_INTERVAL_MS) {
+        lastPrune = Date.now()
+        const pruned = await pruneIdempotencyKeys()
+        if (pruned > 0) console.log(`[Send Scheduler] Pruned ${pruned} expired idempotency keys`)
+      }
+    } catch (error) {
+      console.error("[Send Scheduler] Check failed:", error)
+    } finally {
+      checking = false
+    }
+  }
+
+  console.log("[Send Scheduler] Started")
+  timer = setInterval(check, CHECK_INTERVAL_MS)
+  check()
+}
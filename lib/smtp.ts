@@ -0,0 +1,61 @@
+import type SMTPTransport from "nodemailer/lib/smtp-transport"
+import type { EmailCredentials, SmtpSecurity, SmtpServer } from "@/types/certificate"
+import { isRecord } from "@/lib/utils"
+
+export const SMTP_SECURITY_MODES: Array<{ value: SmtpSecurity; label: string; defaultPort: number }> = [
+  { value: "starttls", label: "STARTTLS", defaultPort: 587 },
+  { value: "tls", label: "SSL/TLS", defaultPort: 465 },
+  { value: "none", label: "None (local relay)", defaultPort: 25 },
+]
+
+// Gmail and Google Workspace for Education accounts
+export const GMAIL_SMTP_SERVER: SmtpServer = { host: "smtp.gmail.com", port: 587, security: "starttls" }
+
+// Any address, unlike the Gmail provider which only accepts gmail.com and .edu.in
+export const isValidSenderEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())
+
+// Read SMTP server settings as posted by the client, or a user-facing message for the first problem found
+export function parseSmtpServer(server: unknown): { server: SmtpServer } | { error: string } {
+  if (!isRecord(server)) return { error: "SMTP server settings are required" }
+
+  const host = typeof server.host === "string" ? server.host.trim() : ""
+  if (!host || !/^[a-zA-Z0-9.-]+$/.test(host)) return { error: "Please enter a valid SMTP host (e.g. smtp.office365.com)" }
+
+  const port = server.port
+  if (typeof port !== "number" || !Number.isInteger(port) || port < 1 || port > 65535) {
+    return { error: "SMTP port must be a number between 1 and 65535" }
+  }
+
+  const security = SMTP_SECURITY_MODES.find((mode) => mode.value === server.security)?.value
+  if (!security) {
+    return { error: "Unknown SMTP security mode" }
+  }
+
+  const username = typeof server.username === "string" ? server.username.trim() : ""
+  return { server: { host, port, security, ...(username && { username }) } }
+}
+
+// Returns a user-facing message for the first problem found, or null when the server settings are usable
+export function validateSmtpServer(server: unknown): string | null {
+  const parsed = parseSmtpServer(server)
+  return "error" in parsed ? parsed.error : null
+}
+
+/**
+ * nodemailer options for the given credentials. Without smtp settings the
+ * account is treated as Gmail. A blank password means the server does not
+ * require authentication (common for campus relays).
+ */
+export function getSmtpTransportOptions(credentials: EmailCredentials): SMTPTransport.Options {
+  const server = credentials.smtp || GMAIL_SMTP_SERVER
+  const user = server.username?.trim() || credentials.email
+
+  return {
+    host: server.host.trim(),
+    port: server.port,
+    secure: server.security === "tls",
+    requireTLS: server.security === "starttls",
+    ignoreTLS: server.security === "none",
+    ...(credentials.appPassword ? { auth: { user, pass: credentials.appPassword } } : {}),
+  }
+}
@@ -0,0 +1,60 @@
+import type { WorkBook } from "xlsx"
+
+// Spreadsheet formats accepted alongside CSV for recipient import
+export const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".ods"]
+
+export const isSpreadsheetFile = (fileName: string) =>
+  SPREADSHEET_EXTENSIONS.some((extension) => fileName.toLowerCase().endsWith(extension))
+
+/**
+ * Read an XLSX/XLS/ODS workbook. The parser is loaded on demand so the
+ * CSV-only path does not pay for it. Cell text is read from the file's own
+ * (Unicode) strings, so non-ASCII names survive intact.
+ */
+export async function readWorkbook(file: File): Promise<WorkBook> {
+  const XLSX = await import("xlsx")
+  const data = await file.arrayBuffer()
+  return XLSX.read(data, { type: "array", cellDates: true })
+}
+
+// All cells of a sheet as display strings, one array per spreadsheet row (blank rows kept)
+export async function getSheetGrid(workbook: WorkBook, sheetName: string): Promise<string[][]> {
+  const XLSX = await import("xlsx")
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) return []
+
+  return XLSX.utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: "",
+    blankrows: true,
+  })
+}
+
+/**
+ * Turn a sheet grid into headers and rows, using the given (0-based) row as
+ * the header row. Rows above it are ignored, as are fully blank rows below.
+ */
+export function gridToTable(grid: string[][], headerRowIndex: number) {
+  const headerRow = grid[headerRowIndex] || []
+  const width = grid.slice(headerRowIndex + 1).reduce((max, row) => Math.max(max, row.length), headerRow.length)
+  const headers = Array.from(
+    { length: width },
+    (_, index) => String(headerRow[index] ?? "").trim() || `Column ${index + 1}`,
+  )
+
+  const rows = grid
+    .slice(headerRowIndex + 1)
+    .filter((row) => row.some((cell) => String(cell).trim() !== ""))
+    .map((row) =>
+      headers.reduce(
+        (obj, header, index) => {
+          obj[header] = String(row[index] ?? "").trim()
+          return obj
+        },
+        {} as Record<string, string>,
+      ),
+    )
+
+  return { headers, rows }
+}
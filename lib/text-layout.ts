@@ -0,0 +1,163 @@
+import type { CertificateField, TextOverflowMode } from "@/types/certificate"
+import { getQrBox, isQrField } from "@/lib/qr-code"
+
+export const DEFAULT_LINE_HEIGHT = 1.2
+export const DEFAULT_MIN_FONT_SIZE = 12
+const ELLIPSIS = "…"
+
+export const TEXT_OVERFLOW_MODES: Array<{ value: TextOverflowMode; label: string }> = [
+  { value: "condense", label: "Condense" },
+  { value: "wrap", label: "Wrap" },
+  { value: "shrink", label: "Shrink to fit" },
+  { value: "truncate", label: "Truncate (…)" },
+]
+
+// Measures the rendered width of text at a font size (canvas measureText or PDF font metrics)
+export type MeasureText = (text: string, fontSize: number) => number
+
+export interface TextLayout {
+  fontSize: number
+  lines: string[]
+  // Distance between consecutive baselines
+  lineAdvance: number
+  // Horizontal squash factor (1 = none); only "condense" ever goes below 1
+  condense: number
+}
+
+const truncateToWidth = (text: string, maxWidth: number, fontSize: number, measure: MeasureText): string => {
+  if (measure(text, fontSize) <= maxWidth) return text
+
+  let end = text.length
+  while (end > 0 && measure(text.slice(0, end).trimEnd() + ELLIPSIS, fontSize) > maxWidth) {
+    end--
+  }
+  return end > 0 ? text.slice(0, end).trimEnd() + ELLIPSIS : ELLIPSIS
+}
+
+// Greedy word wrap; words wider than the box are broken between characters
+const wrapLines = (text: string, maxWidth: number, fontSize: number, measure: MeasureText): string[] => {
+  const lines: string[] = []
+  let current = ""
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (measure(candidate, fontSize) <= maxWidth) {
+      current = candidate
+      continue
+    }
+
+    if (current) lines.push(current)
+    current = ""
+
+    let remainder = word
+    while (measure(remainder, fontSize) > maxWidth && remainder.length > 1) {
+      let cut = remainder.length - 1
+      while (cut > 1 && measure(remainder.slice(0, cut), fontSize) > maxWidth) cut--
+      lines.push(remainder.slice(0, cut))
+      remainder = remainder.slice(cut)
+    }
+    current = remainder
+  }
+
+  if (current) lines.push(current)
+  return lines
+}
+
+/**
+ * Lay out a field's text inside its box according to its overflow mode.
+ * field.y is the first baseline and the box top sits one font size above it;
+ * the box is maxWidth wide, and height (when set) caps how many wrapped lines fit.
+ */
+export function layoutFieldText(field: CertificateField, text: string, measure: MeasureText): TextLayout {
+  const lineHeight = field.lineHeight || DEFAULT_LINE_HEIGHT
+  const maxWidth = field.maxWidth
+  const single = (fontSize: number, line: string, condense = 1): TextLayout => ({
+    fontSize,
+    lines: [line],
+    lineAdvance: fontSize * lineHeight,
+    condense,
+  })
+
+  if (!maxWidth) return single(field.fontSize, text)
+
+  switch (field.overflow) {
+    case "wrap": {
+      const lineAdvance = field.fontSize * lineHeight
+      const linesByHeight = field.height
+        ? Math.max(1, Math.floor((field.height - field.fontSize) / lineAdvance) + 1)
+        : Infinity
+      const maxLines = Math.min(field.maxLines || Infinity, linesByHeight)
+
+      const lines = wrapLines(text, maxWidth, field.fontSize, measure)
+      if (lines.length > maxLines) {
+        const kept = lines.slice(0, maxLines)
+        const overflow = lines.slice(maxLines - 1).join(" ")
+        kept[maxLines - 1] = truncateToWidth(overflow, maxWidth, field.fontSize, measure)
+        return { fontSize: field.fontSize, lines: kept, lineAdvance, condense: 1 }
+      }
+      return { fontSize: field.fontSize, lines, lineAdvance, condense: 1 }
+    }
+
+    case "shrink": {
+      const minFontSize = Math.min(field.minFontSize || DEFAULT_MIN_FONT_SIZE, field.fontSize)
+      let fontSize = field.fontSize
+      while (fontSize > minFontSize && measure(text, fontSize) > maxWidth) {
+        fontSize = Math.max(minFontSize, fontSize - 1)
+      }
+      // Still too wide at the minimum size: condense the rest rather than overflow
+      const width = measure(text, fontSize)
+      return single(fontSize, text, width > maxWidth ? maxWidth / width : 1)
+    }
+
+    case "truncate":
+      return single(field.fontSize, truncateToWidth(text, maxWidth, field.fontSize, measure))
+
+    default: {
+      const width = measure(text, field.fontSize)
+      return single(field.fontSize, text, width > maxWidth ? maxWidth / width : 1)
+    }
+  }
+}
+
+/**
+ * The field's box in template pixels, as outlined in the configuration editor.
+ * Left/right-aligned boxes start at x; centred boxes are centred on x.
+ */
+export function getFieldBox(field: CertificateField) {
+  if (isQrField(field)) return getQrBox(field)
+
+  const width = field.maxWidth || 0
+  return {
+    left: field.alignment === "center" ? field.x - width / 2 : field.x,
+    top: field.y - field.fontSize,
+    width,
+    height: field.height || field.fontSize * (field.lineHeight || DEFAULT_LINE_HEIGHT),
+  }
+}
+
+export const getFieldFont = (field: CertificateField, fontSize = field.fontSize) =>
+  `${field.fontWeight} ${fontSize}px "${field.fontFamily}", serif`
+
+/**
+ * Draw a field onto a canvas using the shared layout rules, so the
+ * configuration preview, the live preview and generated PNGs all agree.
+ */
+export function drawFieldText(ctx: CanvasRenderingContext2D, field: CertificateField, text: string) {
+  const layout = layoutFieldText(field, text, (value, fontSize) => {
+    ctx.font = getFieldFont(field, fontSize)
+    return ctx.measureText(value).width
+  })
+
+  ctx.font = getFieldFont(field, layout.fontSize)
+  ctx.fillStyle = field.color
+  ctx.textAlign = field.alignment
+
+  const x =
+    field.alignment === "center" ? field.x : field.alignment === "right" ? field.x + (field.maxWidth || 0) : field.x
+
+  layout.lines.forEach((line, index) => {
+    const y = field.y + index * layout.lineAdvance
+    if (layout.condense < 1) ctx.fillText(line, x, y, field.maxWidth)
+    else ctx.fillText(line, x, y)
+  })
+}
@@ -0,0 +1,60 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Maps template pixels (the model) to on-screen pixels inside the editor viewport.
+ * fitScale is the CSS-px-per-template-px ratio that fits the template to the
+ * viewport width; zoom multiplies it and pan offsets the result.
+ */
+export interface ViewTransform {
+  fitScale: number
+  zoom: number
+  panX: number
+  panY: number
+}
+
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 8
+
+export const getViewScale = (view: ViewTransform) => view.fitScale * view.zoom
+
+export function viewToModel(point: Point, view: ViewTransform): Point {
+  const scale = getViewScale(view)
+  return { x: (point.x - view.panX) / scale, y: (point.y - view.panY) / scale }
+}
+
+export function modelToView(point: Point, view: ViewTransform): Point {
+  const scale = getViewScale(view)
+  return { x: point.x * scale + view.panX, y: point.y * scale + view.panY }
+}
+
+// Keep the zoomed template covering the viewport: no panning past its edges
+export function clampPan(
+  view: ViewTransform,
+  viewport: { width: number; height: number },
+  model: { width: number; height: number },
+): ViewTransform {
+  const scale = getViewScale(view)
+  const minX = Math.min(0, viewport.width - model.width * scale)
+  const minY = Math.min(0, viewport.height - model.height * scale)
+  return {
+    ...view,
+    panX: Math.min(0, Math.max(minX, view.panX)),
+    panY: Math.min(0, Math.max(minY, view.panY)),
+  }
+}
+
+// Zoom around an on-screen anchor so the template point under it stays put
+export function zoomAt(view: ViewTransform, anchor: Point, zoom: number): ViewTransform {
+  const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+  const modelAnchor = viewToModel(anchor, view)
+  const nextScale = view.fitScale * nextZoom
+  return {
+    ...view,
+    zoom: nextZoom,
+    panX: anchor.x - modelAnchor.x * nextScale,
+    panY: anchor.y - modelAnchor.y * nextScale,
+  }
+}
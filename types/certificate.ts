@@ -1,6 +1,16 @@
+// How text that is wider than maxWidth is fitted into the field box
+export type TextOverflowMode = "condense" | "wrap" | "shrink" | "truncate"
+
+// Text fields print mapped CSV values; QR fields encode a link built from qrPattern
+export type CertificateFieldType = "text" | "qr"
+
 export interface CertificateField {
   id: string
   name: string
+  // Absent on fields saved before QR codes existed, which are all text
+  type?: CertificateFieldType
+  // QR payload with {{Tag}} merge values, e.g. "{{VerificationURL}}"
+  qrPattern?: string
   x: number
   y: number
   fontSize: number
@@ -9,7 +19,204 @@ export interface CertificateField {
   color: string
   alignment: "left" | "center" | "right"
   maxWidth?: number
+  height?: number
+  overflow?: TextOverflowMode
+  lineHeight?: number
+  maxLines?: number
+  minFontSize?: number
 }
 
-export type EmailProvider = "resend" | "gmail"
+export type EmailProvider = "resend" | "gmail" | "smtp"
 export type SendingMode = "sequential" | "pooled"
+export type OutputFormat = "png" | "pdf"
+
+// How an SMTP connection is secured: implicit TLS (usually port 465), a STARTTLS upgrade (usually 587) or none (local relays)
+export type SmtpSecurity = "tls" | "starttls" | "none"
+
+export interface SmtpServer {
+  host: string
+  port: number
+  security: SmtpSecurity
+  // Login name when it differs from the sender address (e.g. a relay account)
+  username?: string
+}
+
+// Sender address and password; smtp is set for the generic SMTP provider, absent for Gmail
+export interface EmailCredentials {
+  email: string
+  appPassword: string
+  smtp?: SmtpServer
+}
+
+// Sender name, subject and HTML body of certificate emails; all three accept {{Column}} merge tags
+export interface EmailTemplate {
+  senderName: string
+  subject: string
+  html: string
+}
+
+// Delivery state of one recipient within a send job
+export type RecipientSendStatus = "queued" | "sent" | "failed" | "skipped"
+
+// "interrupted" means the job stopped (e.g. server restart) with recipients still queued
+export type SendJobStatus = "scheduled" | "running" | "completed" | "interrupted" | "cancelled"
+
+export interface SendJobRecipient {
+  email: string
+  name: string
+  fileName: string
+  status: RecipientSendStatus
+  messageId?: string
+  error?: string
+  // Send attempts so far, across resumes and retries of transient failures
+  attempts?: number
+  // When the recipient was sent or failed, for throughput and ETA
+  completedAt?: string
+  // Skipped because this job (the id) already sent them the same certificate within the idempotency window
+  duplicateOf?: string
+}
+
+// What the send-jobs API reports about a job; credentials and certificates stay server-side
+export interface SendJobSummary {
+  id: string
+  status: SendJobStatus
+  provider: EmailProvider
+  mode?: SendingMode
+  createdAt: string
+  updatedAt: string
+  // Start of the current (or last) run; a resumed job restarts the clock
+  startedAt?: string
+  // When a scheduled job will start, and the zone it was scheduled in (for display)
+  scheduledAt?: string
+  timeZone?: string
+  // Why the job stopped early, e.g. the provider rejected the credentials
+  error?: string
+  counts: Record<RecipientSendStatus, number>
+  recipients: SendJobRecipient[]
+}
+
+// Streamed by GET /api/send-jobs/[id]/events: a full snapshot on connect and when the job starts or stops, then one event per recipient
+export type SendJobEvent =
+  | { type: "snapshot"; job: SendJobSummary }
+  | {
+      type: "recipient"
+      index: number
+      recipient: SendJobRecipient
+      counts: Record<RecipientSendStatus, number>
+    }
+
+// One rendered email of a dry run: exactly what would be sent, without sending it
+export interface DryRunEmail {
+  to: string
+  senderName: string
+  subject: string
+  html: string
+  attachments: Array<{ filename: string; size: number }>
+  // Anything that would make this email fail or be skipped
+  problems: string[]
+}
+
+export interface DryRunReport {
+  provider: EmailProvider
+  total: number
+  // Emails with no problems
+  ready: number
+  // Sum of all attachment sizes, in bytes
+  totalSize: number
+  // Template tags no recipient column provides; they render empty
+  unknownMergeTags: string[]
+  emails: DryRunEmail[]
+}
+
+// Outcome of sending one recipient's email to the sender instead
+export interface TestSendResult {
+  recipient: string
+  to: string
+  success: boolean
+  error?: string
+}
+
+// An issued certificate as kept in the verification registry; everything here is public
+export interface CertificateRecord {
+  id: string
+  holderName: string
+  course: string
+  // As printed on the certificate (its Date field), otherwise the day it was generated
+  issueDate: string
+  // When the certificate was generated and registered
+  issuedAt: string
+  // sha256 of the certificate file as generated, hex
+  contentHash: string
+  format: OutputFormat
+  // The revoked certificate this one corrects
+  supersedes?: string
+  // Lookups fill in the status; a revoked certificate may name its corrected replacement
+  status?: CertificateStatus
+  revokedAt?: string
+  revocationReason?: string
+  replacedBy?: string
+}
+
+export type CertificateStatus = "active" | "revoked"
+
+// A corrected certificate and the ID it replaces, as sent by the generation step
+export type ReissuedCertificate = CertificateRecord & { supersedes: string }
+
+// The issuer's public signing key, as published for verifiers
+export interface IssuerKeyInfo {
+  name: string
+  // RFC 7638 thumbprint of the public key
+  keyId: string
+  publicKey: JsonWebKey
+}
+
+// A generated file to be signed; only its hash is sent to the server
+export interface FileToSign {
+  fileName: string
+  contentHash: string
+  certificateId?: string
+}
+
+// What the issuer signs for one certificate file
+export interface SignaturePayload {
+  fileName: string
+  contentHash: string
+  certificateId?: string
+  issuer: string
+  keyId: string
+  signedAt: string
+}
+
+export interface SignedFile {
+  fileName: string
+  // The exact JSON text of a SignaturePayload that was signed
+  payload: string
+  // ES256 (ECDSA P-256, SHA-256) signature over the payload, raw r||s, base64url
+  signature: string
+}
+
+// signatures.json, shipped in the ZIP next to the certificate files
+export interface SignatureManifest {
+  version: 1
+  algorithm: "ES256"
+  issuer: IssuerKeyInfo
+  files: SignedFile[]
+}
+
+// What the generation step sends to have an Open Badge issued for one certificate
+export interface BadgeToIssue {
+  holderName: string
+  email?: string
+  // The achievement, taken from the Course (or Event) field
+  achievementName: string
+  certificateId?: string
+  issuedAt: string
+}
+
+// A signed Open Badges 3.0 credential, shipped in the ZIP and optionally attached to emails
+export interface OpenBadge {
+  // The OpenBadgeCredential as JSON-LD text
+  credential: string
+  // The same credential signed as a VC-JWT with the issuer key
+  jwt: string
+}
@@ -4,9 +4,10 @@
  * Defends against: XSS, memory dumps, local storage attacks, timing attacks
  */
 
-interface EncryptedCredentials {
-  email: string
-  appPassword: string
+import type { EmailCredentials, SmtpServer } from '@/types/certificate'
+import { isValidSenderEmail, validateSmtpServer } from '@/lib/smtp'
+
+interface EncryptedCredentials extends EmailCredentials {
   timestamp: number
 }
 
@@ -75,29 +76,50 @@ function generateSessionPassword(): string {
 }
 
 // Encrypt credentials using AES-256-GCM
-export async function encryptCredentials(email: string, appPassword: string): Promise<void> {
+export async function encryptCredentials(email: string, appPassword: string, smtp?: SmtpServer): Promise<void> {
   try {
-    // Input validation and sanitization
-    if (!email || !appPassword) {
-      throw new Error('Email and app password are required')
-    }
+    let credentials: EncryptedCredentials
 
-    // Validate email format (Gmail and educational domains)
-    const emailRegex = /^[a-zA-Z0-9._%+-]+@(gmail\.com|[a-zA-Z0-9.-]+\.edu\.in)$/
-    if (!emailRegex.test(email.trim())) {
-      throw new Error('Please enter a valid Gmail address or educational email (.edu.in)')
-    }
+    if (smtp) {
+      // Generic SMTP: any sender address; the password may be blank for relays without auth
+      if (!email || !isValidSenderEmail(email)) {
+        throw new Error('Please enter a valid sender email address')
+      }
 
-    // Validate app password format (16 chars, typically space-separated)
-    const cleanAppPassword = appPassword.replace(/\s/g, '')
-    if (cleanAppPassword.length !== 16 || !/^[a-zA-Z0-9]+$/.test(cleanAppPassword)) {
-      throw new Error('Invalid app password format. Should be 16 characters.')
-    }
+      const serverError = validateSmtpServer(smtp)
+      if (serverError) {
+        throw new Error(serverError)
+      }
 
-    const credentials: EncryptedCredentials = {
-      email: email.trim().toLowerCase(),
-      appPassword: cleanAppPassword,
-      timestamp: Date.now()
+      credentials = {
+        email: email.trim().toLowerCase(),
+        appPassword,
+        smtp,
+        timestamp: Date.now()
+      }
+    } else {
+      // Input validation and sanitization
+      if (!email || !appPassword) {
+        throw new Error('Email and app password are required')
+      }
+
+      // Validate email format (Gmail and educational domains)
+      const emailRegex = /^[a-zA-Z0-9._%+-]+@(gmail\.com|[a-zA-Z0-9.-]+\.edu\.in)$/
+      if (!emailRegex.test(email.trim())) {
+        throw new Error('Please enter a valid Gmail address or educational email (.edu.in)')
+      }
+
+      // Validate app password format (16 chars, typically space-separated)
+      const cleanAppPassword = appPassword.replace(/\s/g, '')
+      if (cleanAppPassword.length !== 16 || !/^[a-zA-Z0-9]+$/.test(cleanAppPassword)) {
+        throw new Error('Invalid app password format. Should be 16 characters.')
+      }
+
+      credentials = {
+        email: email.trim().toLowerCase(),
+        appPassword: cleanAppPassword,
+        timestamp: Date.now()
+      }
     }
 
     // Generate encryption components
@@ -210,8 +232,12 @@ export async function hasValidCredentials(): Promise<boolean> {
   return credentials !== null
 }
 
-// Validate credentials by testing Gmail connection
-export async function validateCredentials(email: string, appPassword: string): Promise<boolean> {
+// Validate credentials by testing the SMTP connection (Gmail unless smtp settings are given)
+export async function validateCredentials(email: string, appPassword: string, smtp?: SmtpServer): Promise<boolean> {
+  if (smtp) {
+    return validateSmtpCredentials(email, appPassword, smtp)
+  }
+
   try {
     // This would ideally be done server-side to avoid exposing credentials to client
     // For now, we'll do basic format validation
@@ -261,6 +287,37 @@ export async function validateCredentials(email: string, appPassword: string): P
   }
 }
 
+// Generic SMTP: the server's reason (bad host, TLS mismatch, rejected login) is thrown so it can be shown
+async function validateSmtpCredentials(email: string, password: string, smtp: SmtpServer): Promise<boolean> {
+  if (!isValidSenderEmail(email)) {
+    throw new Error('Please enter a valid sender email address')
+  }
+
+  console.log(`[Security] Validating SMTP server ${smtp.host}:${smtp.port} (${smtp.security})...`)
+
+  const response = await fetch('/api/validate-smtp-credentials', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      email: email.trim().toLowerCase(),
+      appPassword: password,
+      smtp
+    })
+  })
+
+  const result = await response.json()
+
+  if (!result.success) {
+    console.error('[Security] ❌ SMTP validation failed:', result.error)
+    throw new Error(result.error || 'Unable to connect to the SMTP server')
+  }
+
+  console.log('[Security] ✅ SMTP validation successful!')
+  return true
+}
+
 // Security event handlers
 export function setupSecurityEventHandlers(): void {
   // Clear credentials on page unload
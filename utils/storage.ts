@@ -1,72 +1,179 @@
-import type { CertificateField } from "@/types/certificate"
+import type { CertificateField, EmailProvider, EmailTemplate, OpenBadge, OutputFormat } from "@/types/certificate"
+import { getCertificateContentType } from "@/lib/certificate-format"
+
+// Undo/redo stacks of field snapshots for the configuration step
+export interface FieldHistory {
+  past: CertificateField[][]
+  future: CertificateField[][]
+}
+
+export interface StoredCertificate {
+  email: string
+  name: string
+  certificateBlob: Blob
+  fileName: string
+  // CSV row the certificate was generated from, for email merge tags
+  data?: Record<string, string>
+  // Issued when Open Badges are exported, and attachable to the email
+  badge?: OpenBadge
+}
 
 export interface SessionData {
   csvData: Array<Record<string, string>>
   csvHeaders: string[]
   fieldMapping: Record<string, string>
-  generatedCertificates: Array<{
-    email: string
-    name: string
-    certificateBlobBase64: string
-    fileName: string
-  }>
+  generatedCertificates: StoredCertificate[]
   currentStep: number
-  emailProvider: "resend" | "gmail"
+  emailProvider: EmailProvider
   sendingMode: "auto" | "sequential" | "pooled"
-  outputFormat: "png" | "pdf"
+  outputFormat: OutputFormat
   quality: "standard" | "high"
   templateImage: string
   fields: CertificateField[]
+  fieldHistory: FieldHistory
+  emailTemplate: EmailTemplate
+  // Last email send job, so its progress survives a reload and it can be resumed
+  sendJobId: string | null
   timestamp: number
 }
 
-const STORAGE_KEY = "cert-generator-session"
+/**
+ * Session persistence backed by IndexedDB.
+ * Each SessionData key is its own record, so saving the field list does not
+ * rewrite hundreds of certificates, and certificates are kept as native Blobs
+ * instead of base64 strings (no ~5MB localStorage quota).
+ */
+const DB_NAME = "cert-generator"
+const DB_VERSION = 1
+const STORE_NAME = "session"
+const LEGACY_STORAGE_KEY = "cert-generator-session"
 const MAX_STORAGE_AGE = 24 * 60 * 60 * 1000 // 24 hours
 
-export function saveSession(data: Partial<SessionData>) {
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry if opening failed (e.g. private browsing restrictions)
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  return openDatabase().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode)
+        const request = operation(transaction.objectStore(STORE_NAME))
+        transaction.oncomplete = () => resolve(request ? request.result : undefined)
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      }),
+  )
+}
+
+export async function saveSession(data: Partial<SessionData>): Promise<boolean> {
   try {
-    const existing = loadSession()
-    const updated = { ...existing, ...data, timestamp: Date.now() }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+    await runTransaction("readwrite", (store) => {
+      for (const [key, value] of Object.entries({ ...data, timestamp: Date.now() })) {
+        store.put(value, key)
+      }
+    })
+    return true
   } catch (error) {
     console.warn("Failed to save session:", error)
+    return false
   }
 }
 
-export function loadSession(): Partial<SessionData> {
+/**
+ * Read just the given keys of the session, so a caller that needs one small
+ * value does not pull every stored certificate Blob. Returns nothing once
+ * the session has expired.
+ */
+export async function loadSession<K extends keyof SessionData>(keys: K[]): Promise<Partial<Pick<SessionData, K>>> {
   try {
-    const data = localStorage.getItem(STORAGE_KEY)
-    if (!data) return {}
+    await migrateLegacySession()
 
-    const parsed = JSON.parse(data)
+    const session: Partial<SessionData> = {}
+    await runTransaction("readonly", (store) => {
+      for (const key of new Set<keyof SessionData>([...keys, "timestamp"])) {
+        const request = store.get(key)
+        request.onsuccess = () => {
+          if (request.result !== undefined) Object.assign(session, { [key]: request.result })
+        }
+      }
+    })
 
     // Clear old sessions (older than 24 hours)
-    if (Date.now() - (parsed.timestamp || 0) > MAX_STORAGE_AGE) {
-      clearSession()
+    if (Date.now() - (session.timestamp || 0) > MAX_STORAGE_AGE) {
+      if (session.timestamp) await clearSession()
       return {}
     }
 
-    return parsed
+    return session
   } catch (error) {
     console.warn("Failed to load session:", error)
     return {}
   }
 }
 
-export function clearSession() {
+export async function clearSession() {
   try {
-    localStorage.removeItem(STORAGE_KEY)
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    await runTransaction("readwrite", (store) => store.clear())
   } catch (error) {
     console.warn("Failed to clear session:", error)
   }
 }
 
-export function hasValidSession(): boolean {
-  const session = loadSession()
-  return (
-    Object.keys(session).length > 0 &&
-    Date.now() - (session.timestamp || 0) < MAX_STORAGE_AGE
-  )
+export async function hasValidSession(): Promise<boolean> {
+  const { timestamp } = await loadSession(["timestamp"])
+  return !!timestamp && Date.now() - timestamp < MAX_STORAGE_AGE
+}
+
+// One-time move of a session saved by the old localStorage implementation
+async function migrateLegacySession() {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!legacy) return
+
+  try {
+    const parsed = JSON.parse(legacy)
+    if (Date.now() - (parsed.timestamp || 0) < MAX_STORAGE_AGE) {
+      const generatedCertificates = (parsed.generatedCertificates || []).map(
+        (cert: { email: string; name: string; certificateBlobBase64: string; fileName: string }) => ({
+          email: cert.email,
+          name: cert.name,
+          certificateBlob: base64ToBlob(cert.certificateBlobBase64, getCertificateContentType(cert.fileName)),
+          fileName: cert.fileName,
+        }),
+      )
+      await saveSession({ ...parsed, generatedCertificates })
+      console.log("[Session] Migrated session from localStorage to IndexedDB")
+    }
+  } finally {
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+  }
 }
 
 // Helper function to convert Blob to base64